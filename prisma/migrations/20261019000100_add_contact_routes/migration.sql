@@ -0,0 +1,22 @@
+-- AlterTable: default outbound instance per location
+ALTER TABLE `User` ADD COLUMN `defaultInstanceId` BIGINT NULL;
+
+-- CreateTable: ContactRoute for sticky outbound routing
+-- Maps (location, contact) -> instance that last received an inbound message
+
+CREATE TABLE `ContactRoute` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `userId` VARCHAR(191) NOT NULL,
+    `contactPhone` VARCHAR(50) NOT NULL,
+    `ghlContactId` VARCHAR(100) NULL,
+    `instanceId` BIGINT NOT NULL,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ContactRoute_userId_contactPhone_key`(`userId`, `contactPhone`),
+    INDEX `ContactRoute_userId_ghlContactId_idx`(`userId`, `ghlContactId`),
+    INDEX `ContactRoute_instanceId_idx`(`instanceId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ContactRoute` ADD CONSTRAINT `ContactRoute_instanceId_fkey` FOREIGN KEY (`instanceId`) REFERENCES `Instance`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
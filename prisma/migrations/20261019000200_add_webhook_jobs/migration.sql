@@ -0,0 +1,23 @@
+-- CreateTable: WebhookJob durable queue for incoming Evolution webhooks
+
+CREATE TABLE `WebhookJob` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `instanceId` BIGINT NOT NULL,
+    `event` VARCHAR(64) NOT NULL,
+    `payload` JSON NOT NULL,
+    `status` ENUM('pending', 'processing', 'completed', 'failed', 'dead') NOT NULL DEFAULT 'pending',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `lastError` TEXT NULL,
+    `nextAttemptAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `lockedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `WebhookJob_status_nextAttemptAt_idx`(`status`, `nextAttemptAt`),
+    INDEX `WebhookJob_instanceId_idx`(`instanceId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `WebhookJob` ADD CONSTRAINT `WebhookJob_instanceId_fkey` FOREIGN KEY (`instanceId`) REFERENCES `Instance`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable: InboundMessage for idempotent inbound processing
+-- Stores processed Evolution/WhatsApp message IDs per instance
+
+CREATE TABLE `InboundMessage` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `evolutionMsgId` VARCHAR(100) NOT NULL,
+    `instanceId` BIGINT NOT NULL,
+    `contactPhone` VARCHAR(50) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `InboundMessage_instanceId_evolutionMsgId_key`(`instanceId`, `evolutionMsgId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `InboundMessage` ADD CONSTRAINT `InboundMessage_instanceId_fkey` FOREIGN KEY (`instanceId`) REFERENCES `Instance`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
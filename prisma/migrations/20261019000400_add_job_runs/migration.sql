@@ -0,0 +1,15 @@
+-- CreateTable: JobRun log for scheduled background jobs
+
+CREATE TABLE `JobRun` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `jobName` VARCHAR(100) NOT NULL,
+    `trigger` VARCHAR(20) NOT NULL,
+    `status` ENUM('running', 'succeeded', 'failed') NOT NULL DEFAULT 'running',
+    `affected` INTEGER NULL,
+    `error` TEXT NULL,
+    `startedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `finishedAt` DATETIME(3) NULL,
+
+    INDEX `JobRun_jobName_startedAt_idx`(`jobName`, `startedAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,4 @@
+-- AlterTable: track token refresh failures per location
+ALTER TABLE `User` ADD COLUMN `tokenRefreshError` TEXT NULL,
+    ADD COLUMN `tokenRefreshFailedAt` DATETIME(3) NULL,
+    ADD COLUMN `reauthRequired` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable: encrypted Evolution API keys no longer fit in VARCHAR(191)
+ALTER TABLE `Instance` MODIFY `evolutionApiKey` TEXT NOT NULL;
@@ -0,0 +1,9 @@
+-- AlterTable: a GHL message can be sent as several WhatsApp messages (text, then each attachment)
+ALTER TABLE `SentMessage` ADD COLUMN `partIndex` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `status` ENUM('pending', 'sent', 'delivered', 'read', 'failed') NOT NULL DEFAULT 'sent';
+
+-- CreateIndex
+CREATE UNIQUE INDEX `SentMessage_ghlMessageId_partIndex_key` ON `SentMessage`(`ghlMessageId`, `partIndex`);
+
+-- DropIndex
+DROP INDEX `SentMessage_ghlMessageId_key` ON `SentMessage`;
@@ -0,0 +1,5 @@
+-- AlterTable: map inbound WhatsApp messages to their GHL message for quoted replies
+ALTER TABLE `InboundMessage` ADD COLUMN `ghlMessageId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `InboundMessage_ghlMessageId_idx` ON `InboundMessage`(`ghlMessageId`);
@@ -0,0 +1,16 @@
+-- CreateTable: ConnectionEvent for instance connection history
+-- One row per CONNECTION_UPDATE state transition
+
+CREATE TABLE `ConnectionEvent` (
+    `id` BIGINT NOT NULL AUTO_INCREMENT,
+    `instanceId` BIGINT NOT NULL,
+    `state` ENUM('open', 'close', 'connecting') NOT NULL,
+    `statusReason` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ConnectionEvent_instanceId_createdAt_idx`(`instanceId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ConnectionEvent` ADD CONSTRAINT `ConnectionEvent_instanceId_fkey` FOREIGN KEY (`instanceId`) REFERENCES `Instance`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
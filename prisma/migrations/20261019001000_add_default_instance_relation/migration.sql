@@ -0,0 +1,9 @@
+-- Clear defaults that point at instances deleted before the foreign key existed
+UPDATE `User` SET `defaultInstanceId` = NULL
+WHERE `defaultInstanceId` IS NOT NULL AND `defaultInstanceId` NOT IN (SELECT `id` FROM `Instance`);
+
+-- CreateIndex
+CREATE UNIQUE INDEX `User_defaultInstanceId_key` ON `User`(`defaultInstanceId`);
+
+-- AddForeignKey: deleting an instance clears the location's default
+ALTER TABLE `User` ADD CONSTRAINT `User_defaultInstanceId_fkey` FOREIGN KEY (`defaultInstanceId`) REFERENCES `Instance`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,135 @@
+import {
+	Controller,
+	Get,
+	Post,
+	Param,
+	Query,
+	HttpException,
+	HttpStatus,
+	UseGuards,
+	Logger,
+} from "@nestjs/common";
+import { JobRun, WebhookJob, WebhookJobStatus } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { WebhookQueueService } from "../queue/webhook-queue.service";
+import { SchedulerService } from "../scheduler/scheduler.service";
+import { AdminTokenGuard } from "./guards/admin-token.guard";
+
+function serializeWebhookJob(job: WebhookJob) {
+	return {
+		id: job.id.toString(),
+		instanceId: job.instanceId.toString(),
+		event: job.event,
+		status: job.status,
+		attempts: job.attempts,
+		lastError: job.lastError,
+		nextAttemptAt: job.nextAttemptAt,
+		createdAt: job.createdAt,
+		updatedAt: job.updatedAt,
+	};
+}
+
+function serializeJobRun(run: JobRun) {
+	return {
+		id: run.id.toString(),
+		trigger: run.trigger,
+		status: run.status,
+		affected: run.affected,
+		error: run.error,
+		startedAt: run.startedAt,
+		finishedAt: run.finishedAt,
+	};
+}
+
+@Controller("admin")
+@UseGuards(AdminTokenGuard)
+export class AdminController {
+	private readonly logger = new Logger(AdminController.name);
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly webhookQueue: WebhookQueueService,
+		private readonly scheduler: SchedulerService,
+	) {}
+
+	@Get("webhook-jobs")
+	async listWebhookJobs(@Query("status") status?: string, @Query("limit") limit?: string) {
+		const statuses = (status || "failed,dead").split(",").map(s => s.trim());
+		const invalid = statuses.filter(s => !Object.values(WebhookJobStatus).includes(s as WebhookJobStatus));
+		if (invalid.length > 0) {
+			throw new HttpException(`Invalid status: ${invalid.join(", ")}`, HttpStatus.BAD_REQUEST);
+		}
+
+		const jobs = await this.prisma.listWebhookJobs(statuses as WebhookJobStatus[], Math.min(Number(limit) || 50, 500));
+
+		return {
+			success: true,
+			jobs: jobs.map(serializeWebhookJob),
+		};
+	}
+
+	@Post("webhook-jobs/replay")
+	async replayDeadWebhookJobs() {
+		const jobs = await this.prisma.listWebhookJobs([WebhookJobStatus.dead], 500);
+		for (const job of jobs) {
+			await this.webhookQueue.replay(job.id);
+		}
+		this.logger.log(`Replayed ${jobs.length} dead webhook jobs`);
+
+		return {
+			success: true,
+			replayed: jobs.length,
+		};
+	}
+
+	@Post("webhook-jobs/:jobId/replay")
+	async replayWebhookJob(@Param("jobId") jobId: string) {
+		if (!/^\d+$/.test(jobId)) {
+			throw new HttpException("Invalid job ID", HttpStatus.BAD_REQUEST);
+		}
+
+		const job = await this.webhookQueue.replay(BigInt(jobId));
+		if (!job) {
+			throw new HttpException("Job not found", HttpStatus.NOT_FOUND);
+		}
+
+		return {
+			success: true,
+			job: serializeWebhookJob(job),
+		};
+	}
+
+	@Get("jobs")
+	async listJobs() {
+		const jobs = await Promise.all(this.scheduler.getJobs().map(async job => ({
+			name: job.name,
+			description: job.description,
+			intervalMinutes: Math.round(job.intervalMs / 60000),
+			running: this.scheduler.isRunning(job.name),
+			recentRuns: (await this.prisma.getRecentJobRuns(job.name, 5)).map(serializeJobRun),
+		})));
+
+		return {
+			success: true,
+			jobs,
+		};
+	}
+
+	@Post("jobs/:name/run")
+	async runJob(@Param("name") name: string) {
+		if (!this.scheduler.hasJob(name)) {
+			throw new HttpException("Job not found", HttpStatus.NOT_FOUND);
+		}
+
+		this.logger.log(`Manually triggering job ${name}`);
+		const run = await this.scheduler.runJob(name, "manual");
+		if (!run) {
+			throw new HttpException("Job is already running", HttpStatus.CONFLICT);
+		}
+
+		return {
+			success: run.status === "succeeded",
+			run: serializeJobRun(run),
+		};
+	}
+}
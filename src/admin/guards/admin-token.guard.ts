@@ -0,0 +1,32 @@
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { timingSafeEqual } from "crypto";
+
+@Injectable()
+export class AdminTokenGuard implements CanActivate {
+	constructor(private configService: ConfigService) {}
+
+	canActivate(context: ExecutionContext): boolean {
+		const request = context.switchToHttp().getRequest();
+		const header: string | undefined = request.headers.authorization;
+
+		if (!header || !header.startsWith("Bearer ")) {
+			throw new UnauthorizedException("Missing or invalid authorization header");
+		}
+
+		const expectedToken = this.configService.get<string>("ADMIN_API_TOKEN");
+
+		if (!expectedToken) {
+			throw new UnauthorizedException("Admin token not configured");
+		}
+
+		const token = Buffer.from(header.slice("Bearer ".length));
+		const expected = Buffer.from(expectedToken);
+
+		if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+			throw new UnauthorizedException("Invalid admin token");
+		}
+
+		return true;
+	}
+}
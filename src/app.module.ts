@@ -6,6 +6,8 @@ import { OauthModule } from './oauth/oauth.module';
 import { WebhooksModule } from './webhooks/webhooks.module';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { CustomPageModule } from './custom-page/custom-page.module';
+import { AdminModule } from './admin/admin.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
 
 @Module({
     imports: [
@@ -13,11 +15,13 @@ import { CustomPageModule } from './custom-page/custom-page.module';
             isGlobal: true, envFilePath: '.env', cache: true,
         }),
         PrismaModule,
+        SchedulerModule,
         GhlModule,
         OauthModule,
         WebhooksModule,
         ThrottlerModule.forRoot([{ ttl: 60000, limit: 100 }]),
         CustomPageModule,
+        AdminModule,
     ],
 })
 export class AppModule {}
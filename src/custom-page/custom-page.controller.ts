@@ -57,6 +57,8 @@ export class CustomPageController {
 					id: user.id,
 					companyId: user.companyId,
 					hasTokens: !!(user.accessToken && user.refreshToken),
+					reauthRequired: user.reauthRequired,
+					tokenRefreshFailedAt: user.tokenRefreshFailedAt,
 				} : null,
 			});
 
@@ -268,6 +270,33 @@ export class CustomPageController {
           .form-group input::placeholder {
             color: #a0a0a0;
           }
+
+          .form-group input[type="checkbox"] {
+            width: auto;
+            margin-right: 8px;
+          }
+
+          .instance-health {
+            margin-top: 12px;
+            font-size: 0.9rem;
+            color: #636e72;
+            line-height: 1.6;
+          }
+
+          .pairing-qr {
+            display: block;
+            width: 260px;
+            height: 260px;
+            margin: 10px auto;
+          }
+
+          .pairing-code {
+            text-align: center;
+            font-size: 1.6rem;
+            font-weight: 700;
+            letter-spacing: 4px;
+            color: #2d3436;
+          }
           
           .btn {
             background: linear-gradient(135deg, #3B9702 0%, #2d7200 100%);
@@ -769,6 +798,19 @@ export class CustomPageController {
                     <input type="text" id="displayName" name="displayName" placeholder="e.g., Embody Alphen WhatsApp">
                     <small style="color: #666; display: block; margin-top: 4px;">A friendly name for this instance</small>
                   </div>
+
+                  <div class="form-group">
+                    <label for="createInEvolution">
+                      <input type="checkbox" id="createInEvolution" name="createInEvolution">Create a new instance and link it by QR code
+                    </label>
+                    <small style="color: #666; display: block; margin-top: 4px;">Leave unchecked if the number is already paired in Evolution API</small>
+                  </div>
+
+                  <div class="form-group">
+                    <label for="pairingPhone">Phone Number for Pairing Code (optional)</label>
+                    <input type="text" id="pairingPhone" name="pairingPhone" placeholder="e.g., 31612345678">
+                    <small style="color: #666; display: block; margin-top: 4px;">Get an 8 character code for "Link with phone number" instead of scanning the QR code</small>
+                  </div>
                   
                   <button type="submit" id="submitBtn" class="btn">Add Instance</button>
                 </form>
@@ -792,6 +834,19 @@ export class CustomPageController {
           </div>
         </div>
 
+        <div id="pairingModal" class="modal-overlay">
+          <div class="modal">
+            <div class="modal-header">
+              <div class="modal-title">📷 Link WhatsApp</div>
+            </div>
+            <div id="pairingBody" class="modal-body"></div>
+            <div class="modal-actions">
+              <button id="pairingRefresh" class="btn secondary">New Code</button>
+              <button id="pairingClose" class="btn ghost">Close</button>
+            </div>
+          </div>
+        </div>
+
         <script>
           class ModalSystem {
             constructor() {
@@ -911,6 +966,8 @@ export class CustomPageController {
               window.addEventListener('message', this.handleMessage.bind(this));
               this.requestUserData();
               document.getElementById('instanceForm').addEventListener('submit', this.handleFormSubmit.bind(this));
+              document.getElementById('pairingClose').addEventListener('click', () => this.closePairing());
+              document.getElementById('pairingRefresh').addEventListener('click', () => this.refreshPairing());
               
               setTimeout(() => {
                 if (!this.userData) {
@@ -991,14 +1048,27 @@ export class CustomPageController {
                   <strong>✉️ Email:</strong> \${data.userData.email || 'Unknown'}<br>
                   <strong>📍 Location ID:</strong> \${data.locationId}
                 </div>
-                <div class="status-card \${data.user && data.user.hasTokens ? 'success' : 'warning'}">
+                <div class="status-card \${data.user && data.user.hasTokens && !data.user.reauthRequired ? 'success' : 'warning'}">
                   <strong>🔐 OAuth Status:</strong><br>
-                  \${data.user && data.user.hasTokens ? 
-                    '✅ Authenticated and ready' : 
-                    '⚠️ OAuth authentication required'}
+                  \${!data.user || !data.user.hasTokens ?
+                    '⚠️ OAuth authentication required' :
+                    data.user.reauthRequired ?
+                    '⚠️ Reauthorization required' :
+                    '✅ Authenticated and ready'}
                 </div>
               \`;
               document.getElementById('statusInfo').innerHTML = statusHTML;
+
+              if (data.user && data.user.reauthRequired) {
+                document.getElementById('statusInfo').insertAdjacentHTML('afterend', \`
+                  <div class="alert warning">
+                    <strong>⚠️ Reauthorization Required</strong><br>
+                    GoHighLevel rejected this location's access token refresh
+                    (\${new Date(data.user.tokenRefreshFailedAt).toLocaleString()}).
+                    WhatsApp messages cannot be synced until the app is reinstalled or reauthorized from the App Marketplace.
+                  </div>
+                \`);
+              }
               
               if (!data.user || !data.user.hasTokens) {
                 document.getElementById('instancesSection').innerHTML = \`
@@ -1021,12 +1091,54 @@ export class CustomPageController {
                 if (result.success) {
                   this.instances = result.instances;
                   this.displayInstances();
+                  await this.loadHealth();
+                  if (!this.healthTimer) {
+                    this.healthTimer = setInterval(() => this.loadHealth(), 30000);
+                  }
                 }
               } catch (error) {
                 console.error('Failed to load instances:', error);
               }
             }
 
+            async loadHealth() {
+              try {
+                const response = await this.makeAuthenticatedRequest(\`/api/instances/\${this.locationId}/health\`);
+                const result = await response.json();
+                if (result.success) {
+                  result.health.forEach(health => this.displayHealth(health));
+                }
+              } catch (error) {
+                console.error('Failed to load instance health:', error);
+              }
+            }
+
+            displayHealth(health) {
+              const el = document.getElementById(\`health-\${health.instanceId}\`);
+              if (!el) {
+                return;
+              }
+              const liveLabel = health.liveState === 'open' ? '🟢 Online' : health.liveState === 'connecting' ? '🟡 Connecting' : health.liveState === 'error' ? '⚪ Evolution API unreachable' : '🔴 Offline';
+              el.innerHTML = \`
+                <strong>Live:</strong> \${liveLabel}<br>
+                <strong>Uptime (\${health.uptimeDays}d):</strong> \${health.uptimePercent === null ? 'No data yet' : health.uptimePercent + '%'}<br>
+                <strong>Last disconnect:</strong> \${health.lastDisconnect ? \`\${this.timeAgo(health.lastDisconnect.at)}\${health.lastDisconnect.reason ? ' – ' + health.lastDisconnect.reason : ''}\` : 'None recorded'}<br>
+                <strong>Last inbound:</strong> \${this.timeAgo(health.lastInboundAt)}<br>
+                <strong>Last outbound:</strong> \${this.timeAgo(health.lastOutboundAt)}
+              \`;
+            }
+
+            timeAgo(date) {
+              if (!date) {
+                return 'Never';
+              }
+              const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+              if (minutes < 1) return 'just now';
+              if (minutes < 60) return minutes + ' min ago';
+              if (minutes < 24 * 60) return Math.floor(minutes / 60) + ' h ago';
+              return Math.floor(minutes / (24 * 60)) + ' d ago';
+            }
+
             displayInstances() {
               const instancesList = document.getElementById('instancesList');
               
@@ -1052,9 +1164,17 @@ export class CustomPageController {
                   <div class="instance-id">Instance: \${instance.instanceName}</div>
                   <div class="instance-meta">
                     <strong>Created:</strong> \${new Date(instance.createdAt).toLocaleDateString()}
+                    \${instance.isDefault ? '<br><strong>⭐ Default for outbound messages</strong>' : ''}
                   </div>
+                  <div id="health-\${instance.id}" class="instance-health">Loading health...</div>
                   <div class="instance-actions">
                     <button onclick="window.instanceHandler.toggleEditMode('\${instance.id}')" class="btn secondary">Edit Name</button>
+                    <button onclick="window.instanceHandler.setDefaultInstance('\${instance.id}', \${!instance.isDefault})" class="btn secondary">\${instance.isDefault ? 'Unset Default' : 'Set as Default'}</button>
+                    \${instance.state !== 'open' ? \`<button onclick="window.instanceHandler.openPairing('\${instance.id}', true)" class="btn secondary">Link Device</button>\` : ''}
+                    <button onclick="window.instanceHandler.runInstanceAction('\${instance.id}', 'restart')" class="btn secondary">Restart</button>
+                    <button onclick="window.instanceHandler.runInstanceAction('\${instance.id}', 'reconnect')" class="btn secondary">Reconnect</button>
+                    \${instance.state === 'open' ? \`<button onclick="window.instanceHandler.runInstanceAction('\${instance.id}', 'logout')" class="btn secondary">Log Out</button>\` : ''}
+                    <button onclick="window.instanceHandler.rotateWebhookToken('\${instance.id}')" class="btn secondary">Reset Webhook</button>
                     <button class="btn danger" onclick="window.instanceHandler.deleteInstance('\${instance.id}')">Delete</button>
                   </div>
                 </div>
@@ -1107,6 +1227,84 @@ export class CustomPageController {
               }
             }
 
+            async setDefaultInstance(instanceId, isDefault) {
+              try {
+                const response = await this.makeAuthenticatedRequest(\`/api/instances/\${instanceId}\`, {
+                  method: 'PATCH',
+                  body: JSON.stringify({ isDefault })
+                });
+
+                const result = await response.json();
+                if (result.success) {
+                  await this.loadInstances();
+                } else {
+                  await modal.error('Failed to update default instance', 'Update Failed');
+                }
+              } catch (error) {
+                await modal.error('Error updating default instance: ' + error.message, 'Network Error');
+              }
+            }
+
+            async rotateWebhookToken(instanceId) {
+              const confirmed = await modal.confirm(
+                'This generates a new webhook secret and re-registers the webhook with Evolution API. Continue?',
+                'Reset Webhook'
+              );
+
+              if (!confirmed) {
+                return;
+              }
+
+              try {
+                const response = await this.makeAuthenticatedRequest(\`/api/instances/\${instanceId}/webhook-token/rotate\`, {
+                  method: 'POST'
+                });
+
+                const result = await response.json();
+                if (result.success) {
+                  await modal.alert('Webhook re-registered with a new secret', 'Webhook Reset');
+                } else {
+                  await modal.error(result.message || 'Failed to reset webhook', 'Reset Failed');
+                }
+              } catch (error) {
+                await modal.error('Error resetting webhook: ' + error.message, 'Network Error');
+              }
+            }
+
+            async runInstanceAction(instanceId, action) {
+              const labels = { logout: 'Log Out', restart: 'Restart', reconnect: 'Reconnect' };
+              if (action === 'logout') {
+                const confirmed = await modal.confirm(
+                  'This unlinks the WhatsApp number from the instance. You will need to scan a new QR code to use it again. Continue?',
+                  'Log Out'
+                );
+                if (!confirmed) {
+                  return;
+                }
+              }
+
+              try {
+                const response = await this.makeAuthenticatedRequest(\`/api/instances/\${instanceId}/\${action}\`, {
+                  method: 'POST'
+                });
+
+                const result = await response.json();
+                await this.loadInstances();
+                if (!result.success) {
+                  await modal.error(result.message || \`Failed to \${action} instance\`, \`\${labels[action]} Failed\`);
+                  return;
+                }
+                const stateLabel = result.state === 'open' ? 'Connected' : result.state === 'close' ? 'Disconnected' : result.state === 'connecting' ? 'Connecting' : 'Unknown';
+                if (action === 'reconnect' && result.state !== 'open') {
+                  this.openPairing(instanceId, false);
+                  return;
+                }
+                await modal.alert(\`\${labels[action]} completed. Status: \${stateLabel}\`, labels[action]);
+              } catch (error) {
+                await modal.error(\`Error running \${action}: \` + error.message, 'Network Error');
+              }
+            }
+
             async deleteInstance(instanceId) {
               const confirmed = await modal.confirm(
                 'Are you sure you want to delete this instance? This action cannot be undone.',
@@ -1133,6 +1331,87 @@ export class CustomPageController {
               }
             }
 
+            async openPairing(instanceId, refresh) {
+              this.pairingInstanceId = instanceId;
+              document.getElementById('pairingBody').innerHTML = '<div class="alert info">Loading pairing code...</div>';
+              document.getElementById('pairingRefresh').classList.remove('hidden');
+              document.getElementById('pairingModal').classList.add('show');
+
+              if (refresh) {
+                await this.refreshPairing();
+              } else {
+                await this.pollPairing();
+              }
+              clearInterval(this.pairingTimer);
+              this.pairingTimer = setInterval(() => this.pollPairing(), 3000);
+            }
+
+            closePairing() {
+              clearInterval(this.pairingTimer);
+              this.pairingInstanceId = null;
+              this.pairingPhone = undefined;
+              document.getElementById('pairingModal').classList.remove('show');
+            }
+
+            async refreshPairing() {
+              if (!this.pairingInstanceId) {
+                return;
+              }
+              try {
+                const response = await this.makeAuthenticatedRequest(\`/api/instances/\${this.pairingInstanceId}/pairing\`, {
+                  method: 'POST',
+                  body: JSON.stringify({ phone: this.pairingPhone })
+                });
+                const result = await response.json();
+                if (result.success) {
+                  this.renderPairing(result);
+                } else {
+                  document.getElementById('pairingBody').innerHTML = '<div class="alert error">❌ ' + (result.message || 'Failed to get a pairing code') + '</div>';
+                }
+              } catch (error) {
+                document.getElementById('pairingBody').innerHTML = '<div class="alert error">❌ Network Error: ' + error.message + '</div>';
+              }
+            }
+
+            async pollPairing() {
+              const instanceId = this.pairingInstanceId;
+              if (!instanceId) {
+                return;
+              }
+              try {
+                const response = await this.makeAuthenticatedRequest(\`/api/instances/\${instanceId}/pairing\`);
+                const result = await response.json();
+                if (result.success && instanceId === this.pairingInstanceId) {
+                  this.renderPairing(result);
+                }
+              } catch (error) {
+                console.error('Failed to load pairing code:', error);
+              }
+            }
+
+            renderPairing(result) {
+              const body = document.getElementById('pairingBody');
+              if (result.state === 'open') {
+                clearInterval(this.pairingTimer);
+                document.getElementById('pairingRefresh').classList.add('hidden');
+                body.innerHTML = '<div class="alert success">✅ Connected! WhatsApp messages will now sync with GoHighLevel.</div>';
+                this.loadInstances();
+                return;
+              }
+
+              const pairing = result.pairing;
+              if (!pairing || (!pairing.qrCode && !pairing.pairingCode)) {
+                body.innerHTML = '<div class="alert info">Waiting for a pairing code from Evolution API...</div>';
+                return;
+              }
+              body.innerHTML = \`
+                <p>Open WhatsApp on your phone, go to <strong>Settings → Linked Devices → Link a Device</strong> and scan the code.</p>
+                \${pairing.qrCode ? \`<img class="pairing-qr" src="\${pairing.qrCode}" alt="WhatsApp pairing QR code">\` : ''}
+                \${pairing.pairingCode ? \`<p>Or choose <strong>Link with phone number</strong> and enter:</p><div class="pairing-code">\${pairing.pairingCode}</div>\` : ''}
+                <small style="color: #666; display: block; margin-top: 10px;">The code refreshes automatically. Updated \${new Date(pairing.updatedAt).toLocaleTimeString()}</small>
+              \`;
+            }
+
             async handleFormSubmit(event) {
               event.preventDefault();
               
@@ -1150,7 +1429,9 @@ export class CustomPageController {
                 instanceName: formData.get('instanceName'),
                 evolutionApiUrl: formData.get('evolutionApiUrl').replace(/\\/$/, ''),
                 evolutionApiKey: formData.get('evolutionApiKey'),
-                name: formData.get('displayName') || undefined
+                name: formData.get('displayName') || undefined,
+                createInEvolution: formData.get('createInEvolution') === 'on',
+                pairingPhone: formData.get('pairingPhone') || undefined
               };
 
               submitBtn.disabled = true;
@@ -1172,6 +1453,10 @@ export class CustomPageController {
                   resultDiv.innerHTML = '<div class="alert success">✅ Instance added successfully!</div>';
                   event.target.reset();
                   await this.loadInstances();
+                  if (payload.createInEvolution) {
+                    this.pairingPhone = payload.pairingPhone;
+                    this.openPairing(result.instance.id, false);
+                  }
                 } else {
                   resultDiv.innerHTML = '<div class="alert error">❌ ' + (result.message || 'Failed to add instance') + '</div>';
                 }
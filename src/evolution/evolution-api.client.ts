@@ -25,6 +25,25 @@ export interface EvolutionWebhookConfig {
 	webhookByEvents: boolean;
 	webhookBase64: boolean;
 	events: string[];
+	enabled?: boolean;
+	headers?: Record<string, string>; // Sent with every webhook request (e.g. the adapter's token)
+}
+
+export interface EvolutionQrCode {
+	pairingCode?: string | null; // 8 character code for "Link with phone number", when a number was given
+	code?: string;               // Raw QR payload
+	base64?: string;             // QR code as a data:image/png;base64 URL
+	count?: number;
+}
+
+export interface EvolutionCreateInstanceResponse {
+	instance: {
+		instanceName: string;
+		instanceId?: string;
+		status?: string;
+	};
+	hash?: string | { apikey: string };
+	qrcode?: EvolutionQrCode;
 }
 
 export interface EvolutionMediaOptions {
@@ -33,6 +52,28 @@ export interface EvolutionMediaOptions {
 	fileName?: string;
 	caption?: string;
 	mimetype?: string;
+	quotedMessageId?: string;
+}
+
+export interface EvolutionLocationOptions {
+	latitude: number;
+	longitude: number;
+	name?: string;
+	address?: string;
+}
+
+export interface EvolutionContactCard {
+	fullName: string;
+	phoneNumber: string; // Digits only, also used as the WhatsApp ID of the card
+	email?: string;
+	organization?: string;
+}
+
+export interface EvolutionMediaBase64 {
+	base64: string;
+	mimetype?: string;
+	fileName?: string;
+	mediaType?: string;
 }
 
 /**
@@ -112,6 +153,7 @@ export class EvolutionApiClient {
 				fileName: options.fileName,
 				caption: options.caption,
 				mimetype: options.mimetype,
+				quoted: this.quoted(options.quotedMessageId),
 			},
 		);
 
@@ -119,18 +161,208 @@ export class EvolutionApiClient {
 		return data;
 	}
 
+	/**
+	 * Send an audio file as a WhatsApp push-to-talk voice note
+	 * Voice notes must be ogg/opus; other formats are transcoded by Evolution (encoding: true)
+	 */
+	async sendWhatsAppAudio(
+		instanceName: string,
+		phone: string,
+		audio: string,
+		mimetype?: string,
+		quotedMessageId?: string,
+	): Promise<EvolutionSendResponse> {
+		const formattedPhone = this.formatPhone(phone);
+		const isOpus = !!mimetype && /^audio\/ogg\b|opus/i.test(mimetype);
+		this.logger.log(`Sending voice note to ${formattedPhone} via instance ${instanceName}${isOpus ? "" : " (transcoding to ogg/opus)"}`);
+
+		const { data } = await this.httpClient.post<EvolutionSendResponse>(
+			`/message/sendWhatsAppAudio/${instanceName}`,
+			{
+				number: formattedPhone,
+				audio,
+				encoding: !isOpus,
+				quoted: this.quoted(quotedMessageId),
+			},
+		);
+
+		this.logger.log(`Voice note sent successfully, ID: ${data.key?.id}`);
+		return data;
+	}
+
+	/**
+	 * Send a location pin via Evolution API
+	 */
+	async sendLocation(
+		instanceName: string,
+		phone: string,
+		location: EvolutionLocationOptions,
+		quotedMessageId?: string,
+	): Promise<EvolutionSendResponse> {
+		const formattedPhone = this.formatPhone(phone);
+		this.logger.log(`Sending location to ${formattedPhone} via instance ${instanceName}`);
+
+		const { data } = await this.httpClient.post<EvolutionSendResponse>(
+			`/message/sendLocation/${instanceName}`,
+			{
+				number: formattedPhone,
+				latitude: location.latitude,
+				longitude: location.longitude,
+				name: location.name,
+				address: location.address,
+				quoted: this.quoted(quotedMessageId),
+			},
+		);
+
+		this.logger.log(`Location sent successfully, ID: ${data.key?.id}`);
+		return data;
+	}
+
+	/**
+	 * Send one or more contact cards via Evolution API
+	 * Evolution builds the vCard; wuid makes WhatsApp show the "Message" button for the number
+	 */
+	async sendContact(
+		instanceName: string,
+		phone: string,
+		contacts: EvolutionContactCard[],
+		quotedMessageId?: string,
+	): Promise<EvolutionSendResponse> {
+		const formattedPhone = this.formatPhone(phone);
+		this.logger.log(`Sending ${contacts.length} contact card(s) to ${formattedPhone} via instance ${instanceName}`);
+
+		const { data } = await this.httpClient.post<EvolutionSendResponse>(
+			`/message/sendContact/${instanceName}`,
+			{
+				number: formattedPhone,
+				contact: contacts.map((contact) => ({
+					fullName: contact.fullName,
+					wuid: contact.phoneNumber,
+					phoneNumber: contact.phoneNumber,
+					email: contact.email,
+					organization: contact.organization,
+				})),
+				quoted: this.quoted(quotedMessageId),
+			},
+		);
+
+		this.logger.log(`Contact card sent successfully, ID: ${data.key?.id}`);
+		return data;
+	}
+
+	/**
+	 * Download and decrypt the media of a received message
+	 * Evolution fetches the file from the WhatsApp CDN using the message's media key
+	 */
+	async getBase64FromMediaMessage(
+		instanceName: string,
+		messageId: string,
+	): Promise<EvolutionMediaBase64> {
+		this.logger.log(`Downloading media of message ${messageId} via instance ${instanceName}`);
+
+		const { data } = await this.httpClient.post<EvolutionMediaBase64>(
+			`/chat/getBase64FromMediaMessage/${instanceName}`,
+			{
+				message: { key: { id: messageId } },
+				convertToMp4: false,
+			},
+		);
+
+		return data;
+	}
+
+	/**
+	 * Create a WhatsApp (Baileys) instance; requires the global API key
+	 * The response carries the first pairing QR code; later ones arrive as QRCODE_UPDATED webhooks
+	 */
+	async createInstance(instanceName: string, number?: string): Promise<EvolutionCreateInstanceResponse> {
+		this.logger.log(`Creating instance ${instanceName}`);
+
+		const { data } = await this.httpClient.post<EvolutionCreateInstanceResponse>(
+			"/instance/create",
+			{
+				instanceName,
+				integration: "WHATSAPP-BAILEYS",
+				qrcode: true,
+				number: number ? this.formatPhone(number) : undefined,
+			},
+		);
+
+		this.logger.log(`Instance ${instanceName} created`);
+		return data;
+	}
+
+	/**
+	 * Start pairing a disconnected instance, returning a fresh QR code
+	 * With a phone number, Evolution also returns a pairing code for "Link with phone number"
+	 */
+	async connect(instanceName: string, number?: string): Promise<EvolutionQrCode> {
+		this.logger.log(`Requesting pairing code for instance ${instanceName}`);
+
+		const { data } = await this.httpClient.get<EvolutionQrCode>(
+			`/instance/connect/${instanceName}`,
+			{ params: number ? { number: this.formatPhone(number) } : undefined },
+		);
+
+		return data;
+	}
+
+	/**
+	 * Log the WhatsApp session out; the instance has to be paired again afterwards
+	 */
+	async logout(instanceName: string): Promise<void> {
+		this.logger.log(`Logging out instance ${instanceName}`);
+		await this.httpClient.delete(`/instance/logout/${instanceName}`);
+	}
+
+	/**
+	 * Restart an instance, re-opening its WhatsApp session
+	 */
+	async restart(instanceName: string): Promise<void> {
+		this.logger.log(`Restarting instance ${instanceName}`);
+		await this.httpClient.post(`/instance/restart/${instanceName}`);
+	}
+
 	/**
 	 * Get connection state of an instance
 	 */
 	async getConnectionState(instanceName: string): Promise<EvolutionConnectionState> {
 		this.logger.log(`Getting connection state for instance ${instanceName}`);
 
-		const { data } = await this.httpClient.get<EvolutionConnectionState>(
+		// v2 nests the state under "instance", older versions return it at the top level
+		const { data } = await this.httpClient.get<EvolutionConnectionState & { instance?: EvolutionConnectionState }>(
 			`/instance/connectionState/${instanceName}`,
 		);
+		const connection = data.instance?.state ? data.instance : data;
 
-		this.logger.log(`Instance ${instanceName} connection state: ${data.state}`);
-		return data;
+		this.logger.log(`Instance ${instanceName} connection state: ${connection.state}`);
+		return { state: connection.state, statusReason: connection.statusReason };
+	}
+
+	/**
+	 * Get the webhook configured for an instance, null when none is set
+	 */
+	async findWebhook(instanceName: string): Promise<EvolutionWebhookConfig | null> {
+		const { data } = await this.httpClient.get<{
+			enabled?: boolean;
+			url?: string;
+			headers?: Record<string, string>;
+			webhookByEvents?: boolean;
+			webhookBase64?: boolean;
+			events?: string[];
+		} | null>(`/webhook/find/${instanceName}`);
+
+		if (!data?.url) {
+			return null;
+		}
+		return {
+			url: data.url,
+			enabled: data.enabled,
+			headers: data.headers,
+			webhookByEvents: !!data.webhookByEvents,
+			webhookBase64: !!data.webhookBase64,
+			events: data.events || [],
+		};
 	}
 
 	/**
@@ -144,13 +376,29 @@ export class EvolutionApiClient {
 
 		const { data } = await this.httpClient.post<{ webhook: EvolutionWebhookConfig }>(
 			`/webhook/set/${instanceName}`,
-			config,
+			{
+				webhook: {
+					enabled: config.enabled ?? true,
+					url: config.url,
+					headers: config.headers,
+					byEvents: config.webhookByEvents,
+					base64: config.webhookBase64,
+					events: config.events,
+				},
+			},
 		);
 
 		this.logger.log(`Webhook configured for instance ${instanceName}`);
 		return data;
 	}
 
+	/**
+	 * Reply context for a send request; Evolution looks up the quoted message by its ID
+	 */
+	private quoted(messageId?: string): { key: { id: string } } | undefined {
+		return messageId ? { key: { id: messageId } } : undefined;
+	}
+
 	/**
 	 * Format phone number for Evolution API
 	 * Evolution API expects phone numbers without @ suffixes
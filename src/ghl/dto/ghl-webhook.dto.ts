@@ -36,4 +36,16 @@ export class GhlWebhookDto {
 
 	@IsString()
 	conversationProviderId?: string;
+
+	@IsString()
+	@IsOptional()
+	replyToMessageId?: string;
+
+	@IsString()
+	@IsOptional()
+	webhookId?: string;
+
+	@IsString()
+	@IsOptional()
+	timestamp?: string;
 }
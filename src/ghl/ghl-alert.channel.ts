@@ -0,0 +1,55 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import type { Instance, User } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { NotificationsService } from "../notifications/notifications.service";
+import { InstanceAlert, NotificationChannel } from "../notifications/notification-channel";
+import { GhlService } from "./ghl.service";
+
+/**
+ * Posts instance alerts inside GHL, as a note (or a task with NOTIFY_GHL_MODE=task) on an alerts contact
+ * Each instance gets its own contact, created on the first alert and remembered in the instance settings
+ */
+@Injectable()
+export class GhlAlertChannel implements NotificationChannel, OnModuleInit {
+	readonly name = "ghl";
+
+	constructor(
+		private readonly ghlService: GhlService,
+		private readonly prisma: PrismaService,
+		private readonly notifications: NotificationsService,
+		private readonly configService: ConfigService,
+	) {}
+
+	onModuleInit() {
+		this.notifications.registerChannel(this);
+	}
+
+	async send(alert: InstanceAlert): Promise<void> {
+		const contactId = await this.getAlertContactId(alert.instance);
+		if (this.configService.get<string>("NOTIFY_GHL_MODE") === "task") {
+			await this.ghlService.addContactTask(alert.instance.user, contactId, alert.title, alert.message);
+		} else {
+			await this.ghlService.addContactNote(alert.instance.user, contactId, `${alert.title}\n\n${alert.message}`);
+		}
+	}
+
+	/**
+	 * The instance passed in may predate the first alert, so the stored contact is read back from the database;
+	 * a contact deleted in GHL is created again
+	 */
+	private async getAlertContactId(instance: Instance & { user: User }): Promise<string> {
+		const stored = (await this.prisma.getInstance(instance.id))?.settings?.alertContactId;
+		if (typeof stored === "string" && await this.ghlService.getContact(instance.user, stored)) {
+			return stored;
+		}
+		const response = await this.ghlService.upsertContact(instance.user, {
+			locationId: instance.user.id,
+			name: `WhatsApp alerts: ${instance.name || instance.instanceName}`,
+			source: "WhatsApp",
+			tags: ["whatsapp-instance-alerts"],
+		});
+		await this.prisma.mergeInstanceSettings(instance.id, { alertContactId: response.contact.id });
+		return response.contact.id;
+	}
+}
@@ -6,12 +6,13 @@ import {
 	Patch,
 	Body,
 	Param,
+	Query,
 	HttpException,
 	HttpStatus, Req, UseGuards, Logger,
 } from "@nestjs/common";
 import { PrismaService } from "../prisma/prisma.service";
-import { GhlService } from "./ghl.service";
-import { AuthReq } from "../types";
+import { GhlService, InvalidEvolutionCredentialsError } from "./ghl.service";
+import { AuthReq, InstanceLifecycleAction } from "../types";
 import { GhlContextGuard } from "./guards/ghl-context.guard";
 
 interface CreateInstanceDto {
@@ -20,10 +21,32 @@ interface CreateInstanceDto {
 	evolutionApiUrl: string;
 	evolutionApiKey: string;
 	name?: string;
+	// Create the instance in Evolution API and pair it by QR code, instead of adding an already paired one
+	createInEvolution?: boolean;
+	// Phone number to get a pairing code for, as an alternative to scanning the QR code
+	pairingPhone?: string;
+}
+
+interface RefreshPairingDto {
+	phone?: string;
 }
 
 interface UpdateInstanceDto {
 	name?: string;
+	isDefault?: boolean;
+}
+
+const DEFAULT_UPTIME_DAYS = 7;
+// Connection events are kept for RETENTION_CONNECTION_EVENTS_DAYS (30 by default)
+const MAX_UPTIME_DAYS = 30;
+
+// The webhook token authenticates Evolution webhooks and never leaves the adapter
+function withoutWebhookToken(settings: PrismaJson.InstanceSettings | null): PrismaJson.InstanceSettings | null {
+	if (!settings) {
+		return settings;
+	}
+	const { webhookToken: _webhookToken, ...rest } = settings;
+	return rest;
 }
 
 @Controller("api/instances")
@@ -58,11 +81,32 @@ export class GhlController {
 				name: instance.name || instance.instanceName,
 				state: instance.stateInstance,
 				createdAt: instance.createdAt,
-				settings: instance.settings,
+				settings: withoutWebhookToken(instance.settings),
+				isDefault: user.defaultInstanceId === instance.id,
 			})),
 		};
 	}
 
+	@Get(":locationId/health")
+	async getInstancesHealth(
+		@Param("locationId") locationId: string,
+		@Query("days") days: string | undefined,
+		@Req() req: AuthReq,
+	) {
+		if (req.locationId !== locationId) {
+			throw new HttpException("Unauthorized", HttpStatus.FORBIDDEN);
+		}
+		const uptimeDays = Math.min(Math.max(Number(days) || DEFAULT_UPTIME_DAYS, 1), MAX_UPTIME_DAYS);
+
+		const instances = await this.prisma.getInstancesByUserId(locationId);
+		const health = await Promise.all(instances.map(instance => this.ghlService.getInstanceHealth(instance, uptimeDays)));
+
+		return {
+			success: true,
+			health,
+		};
+	}
+
 	@Post()
 	async createInstance(@Body() dto: CreateInstanceDto, @Req() req: AuthReq) {
 		if (req.locationId !== dto.locationId) {
@@ -86,6 +130,7 @@ export class GhlController {
 				dto.evolutionApiUrl,
 				dto.evolutionApiKey,
 				dto.name,
+				{ create: !!dto.createInEvolution, phone: dto.pairingPhone || undefined },
 			);
 
 			return {
@@ -105,7 +150,7 @@ export class GhlController {
 				throw new HttpException("Instance already exists", HttpStatus.CONFLICT);
 			}
 
-			if (error.code === "INVALID_CREDENTIALS") {
+			if (error instanceof InvalidEvolutionCredentialsError) {
 				throw new HttpException("Invalid Evolution API credentials", HttpStatus.BAD_REQUEST);
 			}
 
@@ -144,20 +189,96 @@ export class GhlController {
 		}
 	}
 
+	@Get(":instanceId/pairing")
+	async getPairing(@Param("instanceId") instanceId: string, @Req() req: AuthReq) {
+		const instance = await this.prisma.getInstance(BigInt(instanceId));
+		if (!instance || (instance.userId !== req.locationId)) {
+			throw new HttpException("Unauthorized", HttpStatus.FORBIDDEN);
+		}
+
+		return {
+			success: true,
+			state: instance.stateInstance,
+			pairing: instance.settings?.pairing || null,
+		};
+	}
+
+	@Post(":instanceId/pairing")
+	async refreshPairing(
+		@Param("instanceId") instanceId: string,
+		@Body() dto: RefreshPairingDto,
+		@Req() req: AuthReq,
+	) {
+		const instance = await this.prisma.getInstance(BigInt(instanceId));
+		if (!instance || (instance.userId !== req.locationId)) {
+			throw new HttpException("Unauthorized", HttpStatus.FORBIDDEN);
+		}
+		if (instance.stateInstance === "open") {
+			throw new HttpException("Instance is already connected", HttpStatus.CONFLICT);
+		}
+		this.logger.log(`Refreshing pairing code for instance: ${instanceId}`);
+
+		const pairing = await this.ghlService.refreshInstancePairing(instance, dto?.phone || undefined);
+
+		return {
+			success: true,
+			state: "connecting",
+			pairing,
+		};
+	}
+
+	@Post(":instanceId/logout")
+	async logoutInstance(@Param("instanceId") instanceId: string, @Req() req: AuthReq) {
+		return this.runInstanceAction(instanceId, "logout", req);
+	}
+
+	@Post(":instanceId/restart")
+	async restartInstance(@Param("instanceId") instanceId: string, @Req() req: AuthReq) {
+		return this.runInstanceAction(instanceId, "restart", req);
+	}
+
+	@Post(":instanceId/reconnect")
+	async reconnectInstance(@Param("instanceId") instanceId: string, @Req() req: AuthReq) {
+		return this.runInstanceAction(instanceId, "reconnect", req);
+	}
+
+	@Post(":instanceId/webhook-token/rotate")
+	async rotateWebhookToken(@Param("instanceId") instanceId: string, @Req() req: AuthReq) {
+		const instance = await this.prisma.getInstance(BigInt(instanceId));
+		if (!instance || (instance.userId !== req.locationId)) {
+			throw new HttpException("Unauthorized", HttpStatus.FORBIDDEN);
+		}
+		this.logger.log(`Rotating webhook token for instance: ${instanceId}`);
+
+		await this.ghlService.rotateInstanceWebhookToken(instance);
+
+		return {
+			success: true,
+			message: "Webhook token rotated and webhook re-registered",
+		};
+	}
+
 	@Patch(":instanceId")
 	async updateInstance(
 		@Param("instanceId") instanceId: string,
 		@Body() dto: UpdateInstanceDto,
+		@Req() req: AuthReq,
 	) {
 		this.logger.log(`Updating instance: ${instanceId}`);
 		try {
 			let instance = await this.prisma.getInstance(BigInt(instanceId));
-			if (!instance) {
-				throw new HttpException("Instance not found", HttpStatus.NOT_FOUND);
+			if (!instance || (instance.userId !== req.locationId)) {
+				throw new HttpException("Unauthorized", HttpStatus.FORBIDDEN);
 			}
 			if (dto.name) {
 				instance = await this.prisma.updateInstanceName(BigInt(instanceId), dto.name);
 			}
+			if (dto.isDefault !== undefined) {
+				const isCurrentDefault = instance.user.defaultInstanceId === instance.id;
+				if (dto.isDefault || isCurrentDefault) {
+					await this.prisma.setDefaultInstance(instance.userId, dto.isDefault ? instance.id : null);
+				}
+			}
 
 			return {
 				success: true,
@@ -181,4 +302,20 @@ export class GhlController {
 			);
 		}
 	}
+
+	private async runInstanceAction(instanceId: string, action: InstanceLifecycleAction, req: AuthReq) {
+		const instance = await this.prisma.getInstance(BigInt(instanceId));
+		if (!instance || (instance.userId !== req.locationId)) {
+			throw new HttpException("Unauthorized", HttpStatus.FORBIDDEN);
+		}
+		this.logger.log(`Running ${action} on instance: ${instanceId}`);
+
+		const state = await this.ghlService.runInstanceAction(instance, action);
+
+		return {
+			success: true,
+			action,
+			state,
+		};
+	}
 }
@@ -3,10 +3,15 @@ import { GhlService } from "./ghl.service";
 import { GhlTransformer } from "./ghl.transformer";
 import { GhlController } from './ghl.controller';
 import { EvolutionModule } from "../evolution/evolution.module";
+import { TokenRefreshJob } from "./token-refresh.job";
+import { MediaModule } from "../media/media.module";
+import { NotificationsModule } from "../notifications/notifications.module";
+import { GhlAlertChannel } from "./ghl-alert.channel";
+import { InstanceReconcileJob } from "./instance-reconcile.job";
 
 @Module({
-	imports: [EvolutionModule],
-	providers: [GhlService, GhlTransformer],
+	imports: [EvolutionModule, MediaModule, NotificationsModule],
+	providers: [GhlService, GhlTransformer, TokenRefreshJob, GhlAlertChannel, InstanceReconcileJob],
 	exports: [GhlService, GhlTransformer],
 	controllers: [GhlController],
 })
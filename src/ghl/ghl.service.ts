@@ -1,11 +1,20 @@
 import { Injectable, HttpException, HttpStatus, BadRequestException, Logger, NotFoundException } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import axios, { AxiosInstance, AxiosError } from "axios";
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from "axios";
 import { GhlTransformer } from "./ghl.transformer";
 import { PrismaService } from "../prisma/prisma.service";
+import { MediaService } from "../media/media.service";
+import { NotificationsService } from "../notifications/notifications.service";
+import { EvolutionApiClient, EvolutionQrCode } from "../evolution/evolution-api.client";
+import {
+	composeOutboundParts, isStatusAdvance, OutboundPart, parseContactCard, parseLocation, rollupSentStatus,
+} from "./outbound-composer";
+import { renderInteractiveMessage } from "./interactive-message.utils";
+import { formatSharedContact, parseVCard, ParsedVCard } from "./vcard.utils";
+import { computeUptime, describeDisconnectReason } from "./instance-health.utils";
 import { GhlWebhookDto } from "./dto/ghl-webhook.dto";
-import { extractPhoneFromJid, isLidJid } from "./jid.utils";
-import type { Instance, User, InstanceState } from "@prisma/client";
+import { extractPhoneFromJid, isLidJid, normalizePhone } from "./jid.utils";
+import type { Instance, User, InstanceState, InboundMessage, SentMessageStatus } from "@prisma/client";
 import { InstanceState as InstanceStateEnum } from "@prisma/client";
 import { randomBytes } from "crypto";
 import {
@@ -13,6 +22,8 @@ import {
 	GhlContactUpsertRequest,
 	GhlContactUpsertResponse,
 	GhlPlatformMessage,
+	InstanceHealth,
+	InstanceLifecycleAction,
 	MessageStatusPayload, WorkflowActionData, WorkflowActionResult,
 } from "../types";
 
@@ -22,9 +33,16 @@ import {
 	EvolutionConnectionState,
 	EvolutionMessage,
 	EvolutionMessagesUpdateData,
+	EvolutionProtocolMessage,
+	PROTOCOL_MESSAGE_REVOKE,
+	PROTOCOL_MESSAGE_EDIT,
 	isMessagesUpsertData,
 	isConnectionUpdateData,
 	isMessagesUpdateData,
+	isCallData,
+	isQrCodeUpdateData,
+	EvolutionCallData,
+	ALLOWED_EVOLUTION_EVENTS,
 } from "./types/evolution-webhook.types";
 
 interface SendResponse {
@@ -51,25 +69,20 @@ interface WaSettings {
 	stateInstance?: string;
 }
 
-interface Settings {
-	webhookUrl: string;
-	webhookUrlToken: string;
-	incomingWebhook: string;
-	incomingCallWebhook: string;
-	stateWebhook: string;
-	wid?: string;
-}
-
 // Evolution API client interface
 interface EvolutionClient {
-	sendMessage(params: { chatId: string; message: string; linkPreview?: boolean }): Promise<SendResponse>;
-	sendFileByUrl(params: { chatId: string; file: { url: string; fileName: string }; caption?: string }): Promise<SendResponse>;
+	sendMessage(params: { chatId: string; message: string; linkPreview?: boolean; quotedMessageId?: string }): Promise<SendResponse>;
 	sendInteractiveButtons(params: { chatId: string; header?: string; body: string; footer?: string; buttons: SendInteractiveButtons["buttons"] }): Promise<SendResponse>;
 	sendInteractiveButtonsReply(params: { chatId: string; header?: string; body: string; footer?: string; buttons: SendInteractiveButtonsReply["buttons"] }): Promise<SendResponse>;
 	getWaSettings(): Promise<WaSettings>;
-	setSettings(settings: Settings): Promise<void>;
 }
 
+// Longest quoted text shown above an inbound reply
+const QUOTE_MAX_LENGTH = 200;
+
+// How long an answered call is remembered, so its terminate event is not reported as missed
+const ANSWERED_CALL_TTL_MS = 6 * 60 * 60 * 1000;
+
 // Helper function to format phone number for chat ID
 function formatPhoneNumber(phone: string, type: "private" | "group" = "private"): string {
 	const cleaned = phone.replace(/\D/g, "");
@@ -94,16 +107,32 @@ function parseInstanceState(state: string | undefined): InstanceState | null {
 	}
 }
 
+/**
+ * Evolution API rejected the given URL and API key, or the instance does not exist there
+ */
+export class InvalidEvolutionCredentialsError extends Error {}
+
+/**
+ * Normalizes an Evolution event name: messages.upsert → MESSAGES_UPSERT
+ */
+export function normalizeEvolutionEvent(event: string): string {
+	return event.replace(/\./g, "_").toUpperCase();
+}
+
 @Injectable()
 export class GhlService {
 	private readonly logger = new Logger(GhlService.name);
 	private readonly ghlApiBaseUrl = "https://services.leadconnectorhq.com";
 	private readonly ghlApiVersion = "2021-07-28";
+	private readonly tokenRefreshes = new Map<string, Promise<User>>();
+	private readonly answeredCalls = new Map<string, number>();
 
 	constructor(
 		private readonly ghlTransformer: GhlTransformer,
 		private readonly prisma: PrismaService,
 		private readonly configService: ConfigService,
+		private readonly mediaService: MediaService,
+		private readonly notifications: NotificationsService,
 	) {}
 
 	/**
@@ -132,16 +161,7 @@ export class GhlService {
 					number: params.chatId,
 					text: params.message,
 					linkPreview: params.linkPreview,
-				});
-				return { idMessage: response.data?.key?.id || response.data?.messageId || "sent" };
-			},
-			async sendFileByUrl(params): Promise<SendResponse> {
-				const response = await baseClient.post(`/message/sendMedia/${instance.instanceName}`, {
-					number: params.chatId,
-					mediatype: "document",
-					media: params.file.url,
-					fileName: params.file.fileName,
-					caption: params.caption,
+					quoted: params.quotedMessageId ? { key: { id: params.quotedMessageId } } : undefined,
 				});
 				return { idMessage: response.data?.key?.id || response.data?.messageId || "sent" };
 			},
@@ -171,20 +191,14 @@ export class GhlService {
 					stateInstance: response.data?.state,
 				};
 			},
-			async setSettings(settings: Settings): Promise<void> {
-				await baseClient.post(`/webhook/set/${instance.instanceName}`, {
-					webhook: {
-						url: settings.webhookUrl,
-						headers: { token: settings.webhookUrlToken },
-						events: ["MESSAGES_UPSERT", "CONNECTION_UPDATE", "MESSAGES_UPDATE", "CALL"],
-					},
-				});
-			},
 		};
 	}
 
 	/**
 	 * Creates a new Evolution API instance for a user
+	 * With pairing.create the instance is also created in Evolution API, and its first pairing QR code is stored
+	 * for the custom page; otherwise it must already exist (and be paired) there
+	 * A created instance is stored with its own API key from Evolution, not the global key it was created with
 	 */
 	async createEvolutionInstanceForUser(
 		userId: string,
@@ -192,56 +206,233 @@ export class GhlService {
 		evolutionApiUrl: string,
 		evolutionApiKey: string,
 		name?: string,
+		pairing?: { create: boolean; phone?: string },
 	): Promise<Instance> {
-		// Verify the Evolution API credentials by checking connection
 		const testClient = this.createEvolutionClient({ instanceName, evolutionApiUrl, evolutionApiKey });
-		
-		try {
-			await testClient.getWaSettings();
-		} catch (error) {
-			this.logger.error(`Failed to verify Evolution API credentials: ${error.message}`);
-			const err = new Error("Invalid Evolution API credentials or instance not found");
-			(err as any).code = "INVALID_CREDENTIALS";
-			throw err;
+		let qrcode: EvolutionQrCode | undefined;
+		let instanceApiKey = evolutionApiKey;
+
+		if (pairing?.create) {
+			if (await this.prisma.getInstanceByName(instanceName)) {
+				throw new Error(`Instance with name ${instanceName} already exists.`);
+			}
+			try {
+				const created = await new EvolutionApiClient(evolutionApiUrl, evolutionApiKey).createInstance(instanceName, pairing.phone);
+				qrcode = created.qrcode;
+				const hash = typeof created.hash === "string" ? created.hash : created.hash?.apikey;
+				if (hash) {
+					instanceApiKey = hash;
+				} else {
+					this.logger.warn(`Evolution API returned no API key for instance ${instanceName}, storing the given key`);
+				}
+			} catch (error) {
+				const status = (error as AxiosError).response?.status;
+				this.logger.error(`Failed to create Evolution instance ${instanceName}: ${error.message}`);
+				// Evolution answers 403 when the name is taken
+				if (status === 403) {
+					throw new Error(`Instance ${instanceName} already exists in Evolution API`);
+				}
+				if (status === 401) {
+					throw new InvalidEvolutionCredentialsError("Invalid Evolution API credentials");
+				}
+				throw error;
+			}
+		} else {
+			// Verify the Evolution API credentials by checking connection
+			try {
+				await testClient.getWaSettings();
+			} catch (error) {
+				this.logger.error(`Failed to verify Evolution API credentials: ${error.message}`);
+				throw new InvalidEvolutionCredentialsError("Invalid Evolution API credentials or instance not found");
+			}
 		}
 
 		// Create instance in database
 		const instance = await this.prisma.createInstance({
 			instanceName,
 			evolutionApiUrl,
-			evolutionApiKey,
+			evolutionApiKey: instanceApiKey,
 			userId,
 			stateInstance: InstanceStateEnum.connecting,
 			name,
 		});
 
 		// Set up webhook for this instance
-		const webhookUrl = this.configService.get<string>("WEBHOOK_URL") || 
-			`${this.configService.get<string>("APP_URL")}/webhooks/evolution`;
-		const webhookToken = randomBytes(32).toString("hex");
-
 		try {
-			await testClient.setSettings({
-				webhookUrl,
-				webhookUrlToken: webhookToken,
-				incomingWebhook: "yes",
-				incomingCallWebhook: "yes", 
-				stateWebhook: "yes",
-			});
-
-			await this.prisma.updateInstanceSettings(instance.id, { webhookToken });
+			const webhookToken = randomBytes(32).toString("hex");
+			await this.registerInstanceWebhook(instance, webhookToken);
+			await this.prisma.mergeInstanceSettings(instance.id, { webhookToken });
 		} catch (error) {
 			this.logger.warn(`Failed to set webhook for instance ${instanceName}: ${error.message}`);
 		}
 
+		if (qrcode) {
+			await this.storePairingCode(instance.id, qrcode);
+		}
+
 		return instance;
 	}
 
+	/**
+	 * Asks Evolution API for a new pairing QR code (and a pairing code when a phone number is given)
+	 * Used when the stored code expired before the webhook delivered a new one, or to pair a disconnected instance
+	 */
+	async refreshInstancePairing(instance: Instance, phone?: string): Promise<PrismaJson.InstancePairing> {
+		const client = new EvolutionApiClient(instance.evolutionApiUrl, instance.evolutionApiKey);
+		let qrcode: EvolutionQrCode;
+		try {
+			qrcode = await client.connect(instance.instanceName, phone);
+		} catch (error) {
+			this.logger.error(`Failed to get pairing code for instance ${instance.instanceName}: ${error.message}`);
+			throw new HttpException("Failed to get a pairing code from Evolution API", HttpStatus.BAD_GATEWAY);
+		}
+		if (instance.stateInstance !== InstanceStateEnum.connecting) {
+			await this.prisma.updateInstanceState(instance.id, InstanceStateEnum.connecting);
+		}
+		return this.storePairingCode(instance.id, qrcode);
+	}
+
+	/**
+	 * Logs out, restarts or reconnects an instance in Evolution API, then stores the state Evolution reports
+	 * Reconnecting an instance that is logged out yields a new pairing QR code, stored for the custom page
+	 */
+	async runInstanceAction(instance: Instance, action: InstanceLifecycleAction): Promise<InstanceState | null> {
+		const client = new EvolutionApiClient(instance.evolutionApiUrl, instance.evolutionApiKey);
+
+		try {
+			switch (action) {
+				case "logout":
+					await client.logout(instance.instanceName);
+					break;
+				case "restart":
+					await client.restart(instance.instanceName);
+					break;
+				case "reconnect": {
+					const qrcode = await client.connect(instance.instanceName);
+					if (qrcode?.base64 || qrcode?.pairingCode) {
+						await this.storePairingCode(instance.id, qrcode);
+					}
+					break;
+				}
+			}
+		} catch (error) {
+			this.logger.error(`Failed to ${action} instance ${instance.instanceName}: ${error.message}`);
+			throw new HttpException(`Failed to ${action} instance in Evolution API`, HttpStatus.BAD_GATEWAY);
+		}
+
+		let state = action === "logout" ? InstanceStateEnum.close : instance.stateInstance;
+		try {
+			const connection = await client.getConnectionState(instance.instanceName);
+			state = parseInstanceState(connection.state) || state;
+		} catch (error) {
+			this.logger.warn(`Failed to read state of instance ${instance.instanceName} after ${action}: ${error.message}`);
+		}
+
+		if (state && state !== instance.stateInstance) {
+			await this.prisma.updateInstanceState(instance.id, state);
+		}
+		this.logger.log(`Instance ${instance.instanceName} ${action} done, state: ${state}`);
+		return state;
+	}
+
+	/**
+	 * Keeps the latest pairing QR code in the instance settings, where the custom page polls for it
+	 */
+	private async storePairingCode(
+		instanceId: bigint,
+		qrcode: { base64?: string; pairingCode?: string | null },
+	): Promise<PrismaJson.InstancePairing> {
+		const pairing = {
+			qrCode: qrcode.base64 || null,
+			pairingCode: qrcode.pairingCode || null,
+			updatedAt: new Date().toISOString(),
+		};
+		await this.prisma.mergeInstanceSettings(instanceId, { pairing });
+		return pairing;
+	}
+
+	/**
+	 * Generates a new webhook token and re-registers the Evolution webhook with it
+	 * The stored token is only replaced once Evolution accepted the new one
+	 */
+	async rotateInstanceWebhookToken(instance: Instance): Promise<void> {
+		const webhookToken = randomBytes(32).toString("hex");
+
+		try {
+			await this.registerInstanceWebhook(instance, webhookToken);
+		} catch (error) {
+			this.logger.error(`Failed to re-register webhook for instance ${instance.instanceName}: ${error.message}`);
+			throw new HttpException("Failed to register webhook with Evolution API", HttpStatus.BAD_GATEWAY);
+		}
+
+		this.logger.log(`Rotated webhook token for instance ${instance.instanceName}`);
+		await this.prisma.mergeInstanceSettings(instance.id, { webhookToken });
+	}
+
+	/**
+	 * Points the instance's Evolution webhook at this adapter, authenticated with the given token
+	 */
+	private async registerInstanceWebhook(instance: Instance, webhookToken: string): Promise<void> {
+		const client = new EvolutionApiClient(instance.evolutionApiUrl, instance.evolutionApiKey);
+		await client.setWebhook(instance.instanceName, {
+			url: this.getEvolutionWebhookUrl(),
+			headers: { token: webhookToken },
+			webhookByEvents: false,
+			webhookBase64: false,
+			events: ALLOWED_EVOLUTION_EVENTS,
+		});
+	}
+
+	private getEvolutionWebhookUrl(): string {
+		return this.configService.get<string>("WEBHOOK_URL") ||
+			`${this.configService.get<string>("APP_URL")}/webhooks/evolution`;
+	}
+
+	/**
+	 * Brings an instance back in line with Evolution API, for when webhooks were missed (e.g. during a deploy)
+	 * Fixes a drifted stateInstance, and re-registers the webhook if it points elsewhere, is disabled or has
+	 * another token
+	 */
+	async reconcileInstance(instance: Instance & { user: User }): Promise<{ stateFixed: boolean; webhookFixed: boolean }> {
+		const client = new EvolutionApiClient(instance.evolutionApiUrl, instance.evolutionApiKey);
+		let stateFixed = false;
+		let webhookFixed = false;
+
+		const connection = await client.getConnectionState(instance.instanceName);
+		const state = parseInstanceState(connection.state);
+		if (state && state !== instance.stateInstance) {
+			this.logger.warn(`Instance ${instance.instanceName} is ${state} in Evolution API but ${instance.stateInstance} here, fixing`);
+			await this.handleConnectionUpdate(instance, state, connection.statusReason);
+			stateFixed = true;
+		}
+
+		const webhookUrl = this.getEvolutionWebhookUrl();
+		const webhookToken = instance.settings?.webhookToken;
+		const webhook = await client.findWebhook(instance.instanceName);
+		const drifted = !webhook || webhook.enabled === false || webhook.url !== webhookUrl || !webhookToken ||
+			(!!webhook.headers && webhook.headers.token !== webhookToken) ||
+			ALLOWED_EVOLUTION_EVENTS.some(event => !webhook.events.includes(event));
+		if (drifted) {
+			this.logger.warn(`Webhook of instance ${instance.instanceName} points to ${webhook?.url || "nothing"}, re-registering ${webhookUrl}`);
+			const token = webhookToken || randomBytes(32).toString("hex");
+			await this.registerInstanceWebhook(instance, token);
+			if (token !== webhookToken) {
+				await this.prisma.mergeInstanceSettings(instance.id, { webhookToken: token });
+			}
+			webhookFixed = true;
+		}
+
+		return { stateFixed, webhookFixed };
+	}
+
 	/**
 	 * Creates an authenticated GHL API client for a user
+	 * A 401 (token revoked before tokenExpiresAt) triggers one forced refresh and a replay of the request
 	 */
 	private createGhlClient(user: User): AxiosInstance {
-		return axios.create({
+		let currentUser = user;
+
+		const client = axios.create({
 			baseURL: this.ghlApiBaseUrl,
 			headers: {
 				Authorization: `Bearer ${user.accessToken}`,
@@ -249,15 +440,66 @@ export class GhlService {
 				"Content-Type": "application/json",
 			},
 		});
+
+		client.interceptors.response.use(
+			(response) => response,
+			async (error: AxiosError) => {
+				const config = error.config as (InternalAxiosRequestConfig & { authRetried?: boolean }) | undefined;
+				if (error.response?.status !== 401 || !config || config.authRetried) {
+					throw error;
+				}
+				config.authRetried = true;
+
+				this.logger.warn(`GHL returned 401 for user ${currentUser.id}, forcing token refresh`);
+				try {
+					currentUser = await this.refreshUserTokens(currentUser);
+				} catch (refreshError) {
+					this.logger.error(`Forced token refresh failed for user ${currentUser.id}: ${refreshError.message}`);
+					throw error;
+				}
+
+				client.defaults.headers.Authorization = `Bearer ${currentUser.accessToken}`;
+				config.headers.Authorization = `Bearer ${currentUser.accessToken}`;
+				return client.request(config);
+			},
+		);
+
+		return client;
 	}
 
 	/**
 	 * Refreshes OAuth tokens for a user
+	 * Single-flight per location: concurrent callers share one refresh, because GHL
+	 * rotates refresh tokens and a second refresh with the old token would fail
 	 */
 	async refreshUserTokens(user: User): Promise<User> {
+		const inFlight = this.tokenRefreshes.get(user.id);
+		if (inFlight) {
+			this.logger.debug(`Token refresh already in progress for user ${user.id}, waiting for it`);
+			return inFlight;
+		}
+
+		const refresh = this.performTokenRefresh(user).finally(() => {
+			this.tokenRefreshes.delete(user.id);
+		});
+		this.tokenRefreshes.set(user.id, refresh);
+		return refresh;
+	}
+
+	private async performTokenRefresh(user: User): Promise<User> {
 		const clientId = this.configService.get<string>("GHL_CLIENT_ID");
 		const clientSecret = this.configService.get<string>("GHL_CLIENT_SECRET");
 
+		// Another process may have rotated the tokens since the caller loaded this user
+		const storedUser = await this.prisma.findUser(user.id);
+		if (!storedUser) {
+			throw new HttpException("Location not found", HttpStatus.UNAUTHORIZED);
+		}
+		if (storedUser.refreshToken !== user.refreshToken && !this.isTokenExpired(storedUser)) {
+			this.logger.debug(`Tokens for user ${user.id} were already refreshed elsewhere`);
+			return storedUser;
+		}
+
 		try {
 			const response = await axios.post(
 				"https://services.leadconnectorhq.com/oauth/token",
@@ -265,7 +507,7 @@ export class GhlService {
 					client_id: clientId!,
 					client_secret: clientSecret!,
 					grant_type: "refresh_token",
-					refresh_token: user.refreshToken!,
+					refresh_token: storedUser.refreshToken,
 				}),
 				{
 					headers: { "Content-Type": "application/x-www-form-urlencoded" },
@@ -275,25 +517,59 @@ export class GhlService {
 			const { access_token, refresh_token, expires_in } = response.data;
 			const tokenExpiresAt = new Date(Date.now() + expires_in * 1000);
 
-			return await this.prisma.updateUserTokens(
+			// Compare-and-swap: only store if nobody replaced the refresh token we just used
+			const updatedUser = await this.prisma.updateUserTokensIfUnchanged(
 				user.id,
+				storedUser.refreshToken,
 				access_token,
 				refresh_token,
 				tokenExpiresAt,
 			);
+			if (updatedUser) {
+				return updatedUser;
+			}
+
+			this.logger.warn(`Tokens for user ${user.id} changed during refresh, using stored tokens`);
+			return (await this.prisma.findUser(user.id)) ?? storedUser;
 		} catch (error) {
+			// Lost a race with another process: our refresh token was already rotated
+			const latestUser = await this.prisma.findUser(user.id);
+			if (latestUser && latestUser.refreshToken !== storedUser.refreshToken) {
+				this.logger.warn(`Token refresh for user ${user.id} failed but tokens were rotated elsewhere, using stored tokens`);
+				return latestUser;
+			}
+
 			this.logger.error(`Failed to refresh tokens for user ${user.id}: ${error.message}`);
+
+			// Only a rejected refresh token needs reauthorization - rate limits and other errors are retried later
+			const response = (error as AxiosError<{ error?: string }>).response;
+			const reauthRequired = !!response &&
+				(response.status === 400 || response.status === 401) &&
+				response.data?.error === "invalid_grant";
+			const details = (error as AxiosError).response?.data
+				? `${error.message}: ${JSON.stringify((error as AxiosError).response!.data)}`
+				: error.message;
+			try {
+				await this.prisma.recordTokenRefreshFailure(user.id, details, reauthRequired);
+			} catch (recordError) {
+				this.logger.warn(`Failed to record token refresh failure for user ${user.id}: ${recordError.message}`);
+			}
+
 			throw new HttpException("Failed to refresh authentication", HttpStatus.UNAUTHORIZED);
 		}
 	}
 
+	private isTokenExpired(user: User): boolean {
+		return !!user.tokenExpiresAt && new Date(user.tokenExpiresAt) <= new Date();
+	}
+
 	/**
 	 * Gets or refreshes a valid GHL client for a user
 	 */
 	private async getValidGhlClient(user: User): Promise<{ client: AxiosInstance; user: User }> {
 		let currentUser = user;
 
-		if (currentUser.tokenExpiresAt && new Date(currentUser.tokenExpiresAt) <= new Date()) {
+		if (this.isTokenExpired(currentUser)) {
 			currentUser = await this.refreshUserTokens(currentUser);
 		}
 
@@ -321,6 +597,27 @@ export class GhlService {
 		}
 	}
 
+	/**
+	 * Adds a note to a GHL contact
+	 */
+	async addContactNote(user: User, contactId: string, body: string): Promise<void> {
+		const { client } = await this.getValidGhlClient(user);
+		await client.post(`/contacts/${contactId}/notes`, { body });
+	}
+
+	/**
+	 * Creates an open task on a GHL contact, due now
+	 */
+	async addContactTask(user: User, contactId: string, title: string, body: string): Promise<void> {
+		const { client } = await this.getValidGhlClient(user);
+		await client.post(`/contacts/${contactId}/tasks`, {
+			title,
+			body,
+			dueDate: new Date().toISOString(),
+			completed: false,
+		});
+	}
+
 	/**
 	 * Gets a contact by ID from GHL
 	 */
@@ -367,15 +664,20 @@ export class GhlService {
 		instance: Instance & { user: User },
 		webhook: EvolutionWebhook,
 	): Promise<void> {
-		// Normalize event name: messages.upsert → MESSAGES_UPSERT
-		const normalizedEvent = webhook.event.replace(/\./g, '_').toUpperCase();
+		const normalizedEvent = normalizeEvolutionEvent(webhook.event);
 		
 		this.logger.log(`Handling Evolution webhook: ${normalizedEvent} for instance ${instance.instanceName}`);
 
 		switch (normalizedEvent as any) {
 			case "CONNECTION_UPDATE":
 				if (isConnectionUpdateData(webhook.data)) {
-					await this.handleConnectionUpdate(instance, webhook.data.state);
+					await this.handleConnectionUpdate(instance, webhook.data.state, webhook.data.statusReason);
+				}
+				break;
+			case "QRCODE_UPDATED":
+				if (isQrCodeUpdateData(webhook.data)) {
+					await this.storePairingCode(instance.id, webhook.data.qrcode);
+					this.logger.log(`New pairing QR code for instance ${instance.instanceName}`);
 				}
 				break;
 			case "MESSAGES_UPSERT":
@@ -406,22 +708,101 @@ export class GhlService {
 			case "SEND_MESSAGE":
 				this.logger.debug(`Outgoing message tracked for instance ${instance.instanceName}`);
 				break;
+			case "CALL":
+				if (isCallData(webhook.data)) {
+					await this.handleCall(instance, webhook.data);
+				}
+				break;
 			default:
 				this.logger.warn(`Unhandled webhook event: ${webhook.event}`);
 		}
 	}
 
+	/**
+	 * Handles incoming WhatsApp calls
+	 * The adapter cannot take calls, so an unanswered call becomes a "missed call" entry in GHL and
+	 * optionally triggers CALL_AUTO_REPLY_MESSAGE. Calls answered on the phone are left alone.
+	 */
+	private async handleCall(
+		instance: Instance & { user: User },
+		call: EvolutionCallData,
+	): Promise<void> {
+		this.logger.log(`Call ${call.id} from ${call.from}: ${call.status}`);
+
+		if (call.status === "accept") {
+			this.answeredCalls.set(call.id, Date.now() + ANSWERED_CALL_TTL_MS);
+			return;
+		}
+		if (!["timeout", "reject", "terminate"].includes(call.status) || call.isGroup) {
+			return;
+		}
+
+		for (const [callId, expiresAt] of this.answeredCalls) {
+			if (expiresAt <= Date.now()) {
+				this.answeredCalls.delete(callId);
+			}
+		}
+		if (this.answeredCalls.has(call.id)) {
+			this.logger.debug(`Call ${call.id} was answered, not reporting it as missed`);
+			return;
+		}
+
+		// A call ends with several events (e.g. timeout, then terminate) - report it once
+		const claim = await this.prisma.claimInboundMessage({
+			evolutionMsgId: `call:${call.id}`,
+			instanceId: instance.id,
+			contactPhone: extractPhoneFromJid(call.from),
+		});
+		if (!claim) {
+			return;
+		}
+
+		const phone = extractPhoneFromJid(call.from);
+		const callType = call.isVideo ? "video" : "voice";
+		try {
+			await this.deliverInboundToGhl(
+				instance,
+				{ phone, name: phone },
+				`📞 Missed WhatsApp ${callType} call from +${phone}`,
+			);
+		} catch (error) {
+			await this.prisma.releaseInboundMessage(claim.id);
+			throw error;
+		}
+
+		const autoReply = this.configService.get<string>("CALL_AUTO_REPLY_MESSAGE");
+		if (autoReply) {
+			try {
+				await this.createEvolutionClient(instance).sendMessage({
+					chatId: formatPhoneNumber(phone),
+					message: autoReply,
+				});
+			} catch (error) {
+				this.logger.warn(`Failed to send call auto-reply to ${phone}: ${error.message}`);
+			}
+		}
+	}
+
 	/**
 	 * Handles connection state changes
 	 */
 	private async handleConnectionUpdate(
 		instance: Instance & { user: User },
 		state: EvolutionConnectionState,
+		statusReason?: number,
 	): Promise<void> {
 		const dbState = parseInstanceState(state);
 		if (dbState) {
 			await this.prisma.updateInstanceState(instance.id, dbState);
-			this.logger.log(`Instance ${instance.instanceName} state changed to ${state}`);
+			const transition = await this.prisma.recordConnectionEvent(instance.id, dbState, statusReason);
+			this.logger.log(`Instance ${instance.instanceName} state changed to ${state}${statusReason ? ` (reason ${statusReason})` : ""}`);
+			if (transition) {
+				await this.notifications.handleStateChange(instance, dbState, statusReason);
+			}
+		}
+		// Paired - the QR code is no longer needed
+		if (dbState === InstanceStateEnum.open && instance.settings?.pairing) {
+			await this.prisma.mergeInstanceSettings(instance.id, { pairing: null });
 		}
 	}
 
@@ -454,12 +835,27 @@ export class GhlService {
 		}
 
 		// Map Evolution status to GHL status
-		const ghlStatus = this.mapEvolutionStatusToGhl(data.status);
-		if (!ghlStatus) {
+		const partStatus = this.mapEvolutionStatusToGhl(data.status);
+		if (!partStatus) {
 			this.logger.debug(`Ignoring status ${data.status} - not relevant for GHL`);
 			return;
 		}
 
+		if (!isStatusAdvance(sentMessage.status, partStatus)) {
+			this.logger.debug(`Ignoring status ${partStatus} for ${evolutionMsgId}, already ${sentMessage.status}`);
+			return;
+		}
+
+		// A GHL message may have gone out as several WhatsApp messages - GHL gets their combined status
+		await this.prisma.updateSentMessageStatus(sentMessage.id, partStatus);
+		const parts = await this.prisma.getSentMessageParts(sentMessage.ghlMessageId);
+		const previousStatus = rollupSentStatus(parts.map(part => part.id === sentMessage.id ? sentMessage.status : part.status));
+		const ghlStatus = rollupSentStatus(parts.map(part => part.status));
+		if (!ghlStatus || ghlStatus === previousStatus) {
+			this.logger.debug(`GHL message ${sentMessage.ghlMessageId} stays ${previousStatus} (${parts.length} parts)`);
+			return;
+		}
+
 		// Update the message status in GHL
 		try {
 			const { client } = await this.getValidGhlClient(sentMessage.instance.user);
@@ -480,7 +876,7 @@ export class GhlService {
 	/**
 	 * Maps Evolution API message status to GHL status
 	 */
-	private mapEvolutionStatusToGhl(evolutionStatus: string): string | null {
+	private mapEvolutionStatusToGhl(evolutionStatus: string): SentMessageStatus | null {
 		switch (evolutionStatus.toUpperCase()) {
 			case "READ":
 			case "PLAYED":
@@ -515,117 +911,385 @@ export class GhlService {
 				continue;
 			}
 
-			// Extract phone number from remoteJid (format: 31612345678@s.whatsapp.net or @lid)
-			const remoteJid = msg.key.remoteJid;
-			const phone = extractPhoneFromJid(remoteJid);
-			if (isLidJid(remoteJid)) {
-				this.logger.warn(`Processing @lid identifier: ${remoteJid} -> ${phone}`);
+			// Evolution re-delivers messages on reconnects and retries - process each ID once
+			let claim: InboundMessage | null = null;
+			if (msg.key.id) {
+				claim = await this.prisma.claimInboundMessage({
+					evolutionMsgId: msg.key.id,
+					instanceId: instance.id,
+					contactPhone: extractPhoneFromJid(msg.key.remoteJid),
+				});
+				if (!claim) {
+					this.logger.log(`Skipping duplicate message ${msg.key.id} for instance ${instance.instanceName}`);
+					continue;
+				}
 			}
-			const name = msg.pushName || phone;
-			const isGroup = remoteJid.endsWith("@g.us");
-
-			// Extract message text
-			let messageText = "";
-			const attachments: Array<{ url: string; fileName?: string; type?: string }> = [];
-
-			if (msg.message) {
-				if (msg.message.conversation) {
-					messageText = msg.message.conversation;
-				} else if (msg.message.extendedTextMessage?.text) {
-					messageText = msg.message.extendedTextMessage.text;
-				} else if (msg.message.imageMessage) {
-					messageText = msg.message.imageMessage.caption || "Image received";
-					if (msg.message.imageMessage.url) {
-						attachments.push({
-							url: msg.message.imageMessage.url,
-							type: msg.message.imageMessage.mimetype,
-						});
-					}
-				} else if (msg.message.videoMessage) {
-					messageText = msg.message.videoMessage.caption || "Video received";
-					if (msg.message.videoMessage.url) {
-						attachments.push({
-							url: msg.message.videoMessage.url,
-							type: msg.message.videoMessage.mimetype,
-						});
-					}
-				} else if (msg.message.audioMessage) {
-					messageText = "Voice message received";
-					if (msg.message.audioMessage.url) {
-						attachments.push({
-							url: msg.message.audioMessage.url,
-							type: msg.message.audioMessage.mimetype,
-						});
-					}
-				} else if (msg.message.documentMessage) {
-					messageText = msg.message.documentMessage.caption || `Document: ${msg.message.documentMessage.fileName || "file"}`;
-					if (msg.message.documentMessage.url) {
-						attachments.push({
-							url: msg.message.documentMessage.url,
-							fileName: msg.message.documentMessage.fileName,
-							type: msg.message.documentMessage.mimetype,
-						});
-					}
-				} else if (msg.message.stickerMessage) {
-					messageText = "Sticker received";
-				} else if (msg.message.locationMessage) {
-					const loc = msg.message.locationMessage;
-					messageText = `📍 Location shared: ${loc.name || ""} ${loc.address || ""}\nhttps://maps.google.com/?q=${loc.degreesLatitude},${loc.degreesLongitude}`;
-				} else if (msg.message.contactMessage) {
-					messageText = `👤 Contact shared: ${msg.message.contactMessage.displayName}`;
-				} else {
-					messageText = "Message received (unsupported type)";
-					this.logger.warn(`Unsupported message type: ${JSON.stringify(Object.keys(msg.message))}`);
+
+			try {
+				const ghlMessageId = await this.processInboundMessage(instance, msg);
+				// Remember the GHL message so agents' replies to it can be sent as WhatsApp quoted replies
+				if (claim && ghlMessageId) {
+					await this.prisma.setInboundMessageGhlId(claim.id, ghlMessageId).catch((mapError) => {
+						this.logger.warn(`Failed to store GHL message ID for ${msg.key.id}: ${mapError.message}`);
+					});
+				}
+			} catch (error) {
+				// Release the claim so a retried webhook can deliver this message
+				if (claim) {
+					await this.prisma.releaseInboundMessage(claim.id);
 				}
+				throw error;
 			}
+		}
+	}
 
-			if (!messageText && attachments.length === 0) {
-				this.logger.warn("Message has no text content and no attachments, skipping");
-				continue;
+	/**
+	 * Forwards a single incoming WhatsApp message to the contact's GHL conversation
+	 * Returns the GHL message ID, if the message was forwarded
+	 */
+	private async processInboundMessage(
+		instance: Instance & { user: User },
+		msg: EvolutionMessage,
+	): Promise<string | undefined> {
+		// Extract phone number from remoteJid (format: 31612345678@s.whatsapp.net or @lid)
+		const remoteJid = msg.key.remoteJid;
+		const phone = extractPhoneFromJid(remoteJid);
+		if (isLidJid(remoteJid)) {
+			this.logger.warn(`Processing @lid identifier: ${remoteJid} -> ${phone}`);
+		}
+		const name = msg.pushName || phone;
+		const isGroup = remoteJid.endsWith("@g.us");
+
+		// Extract message text
+		let messageText = "";
+		const attachments: Array<{ url: string; fileName?: string; type?: string }> = [];
+		let media: { mimetype?: string; fileName?: string } | undefined;
+		let sharedContacts: Array<{ displayName?: string; card: ParsedVCard }> = [];
+		const interactive = renderInteractiveMessage(msg.message);
+
+		if (msg.message) {
+			if (msg.message.conversation) {
+				messageText = msg.message.conversation;
+			} else if (msg.message.extendedTextMessage?.text) {
+				messageText = msg.message.extendedTextMessage.text;
+			} else if (msg.message.imageMessage) {
+				messageText = msg.message.imageMessage.caption || "Image received";
+				media = { mimetype: msg.message.imageMessage.mimetype };
+			} else if (msg.message.videoMessage) {
+				messageText = msg.message.videoMessage.caption || "Video received";
+				media = { mimetype: msg.message.videoMessage.mimetype };
+			} else if (msg.message.audioMessage) {
+				messageText = "Voice message received";
+				media = { mimetype: msg.message.audioMessage.mimetype };
+			} else if (msg.message.documentMessage) {
+				messageText = msg.message.documentMessage.caption || `Document: ${msg.message.documentMessage.fileName || "file"}`;
+				media = {
+					mimetype: msg.message.documentMessage.mimetype,
+					fileName: msg.message.documentMessage.fileName,
+				};
+			} else if (msg.message.stickerMessage) {
+				messageText = "Sticker received";
+			} else if (msg.message.locationMessage) {
+				const loc = msg.message.locationMessage;
+				messageText = `📍 Location shared: ${loc.name || ""} ${loc.address || ""}\nhttps://maps.google.com/?q=${loc.degreesLatitude},${loc.degreesLongitude}`;
+			} else if (msg.message.contactMessage || msg.message.contactsArrayMessage) {
+				const shared = msg.message.contactMessage
+					? [msg.message.contactMessage]
+					: msg.message.contactsArrayMessage!.contacts || [];
+				sharedContacts = shared.map(contact => ({ displayName: contact.displayName, card: parseVCard(contact.vcard) }));
+				const header = sharedContacts.length === 1 ? "Contact shared" : `${sharedContacts.length} contacts shared`;
+				messageText = `${header}:\n${sharedContacts.map(contact => formatSharedContact(contact.displayName, contact.card)).join("\n\n")}`;
+			} else if (interactive) {
+				messageText = interactive.text;
+			} else if (msg.message.reactionMessage) {
+				const reaction = msg.message.reactionMessage;
+				if (!reaction.text) {
+					this.logger.debug(`Ignoring removed reaction on ${reaction.key?.id}`);
+					return undefined;
+				}
+				const original = await this.findReferencedMessage(instance, reaction.key?.id);
+				const note = `${reaction.text} reacted to: ${original?.text ? `"${original.text}"` : "a message"}`;
+				await this.postMessageNote(instance, phone, note, original?.ghlMessageId);
+				return undefined;
+			} else if (msg.message.protocolMessage || msg.message.editedMessage) {
+				const protocol = msg.message.protocolMessage || msg.message.editedMessage?.message?.protocolMessage;
+				const annotation = await this.describeProtocolMessage(instance, protocol);
+				if (!annotation) {
+					this.logger.debug(`Ignoring protocol message of type ${protocol?.type}`);
+					return undefined;
+				}
+				await this.postMessageNote(instance, phone, annotation.note, annotation.ghlMessageId);
+				return undefined;
+			} else {
+				messageText = "Message received (unsupported type)";
+				this.logger.warn(`Unsupported message type: ${JSON.stringify(Object.keys(msg.message))}`);
 			}
+		}
 
-			// Add group sender info if it's a group message
-			if (isGroup && msg.key.participant) {
-				const senderPhone = extractPhoneFromJid(msg.key.participant);
-				messageText = `${name} (+${senderPhone}):\n${messageText}`;
+		// WhatsApp CDN links are encrypted and expire - hand GHL a re-hosted copy instead
+		if (media && msg.key.id) {
+			try {
+				attachments.push(await this.mediaService.rehostMessageMedia(instance, msg.key.id, media));
+			} catch (error) {
+				this.logger.error(`Failed to re-host media of message ${msg.key.id}: ${error.message}`);
 			}
+		}
 
-			this.logger.log(`Processing message from ${phone}: ${messageText.substring(0, 50)}...`);
+		if (!messageText && attachments.length === 0) {
+			this.logger.warn("Message has no text content and no attachments, skipping");
+			return undefined;
+		}
 
-			// Upsert contact in GHL
-			const contactResponse = await this.upsertContact(instance.user, {
-				locationId: instance.user.id,
-				phone,
-				name,
-				source: "WhatsApp",
-			});
+		// Show what the customer is replying to
+		const quote = this.formatQuotedMessage(msg);
+		if (quote) {
+			messageText = `${quote}\n\n${messageText}`;
+		}
 
-			// Send message to GHL conversation
-			await this.sendMessageToGhlConversation(
-				instance.user,
-				contactResponse.contact.id,
-				{
-					contactId: contactResponse.contact.id,
+		// Add group sender info if it's a group message
+		if (isGroup && msg.key.participant) {
+			const senderPhone = extractPhoneFromJid(msg.key.participant);
+			messageText = `${name} (+${senderPhone}):\n${messageText}`;
+		}
+
+		this.logger.log(`Processing message from ${phone}: ${messageText.substring(0, 50)}...`);
+
+		const ghlMessageId = await this.deliverInboundToGhl(instance, { phone, name, selection: interactive?.selection?.text }, messageText, attachments);
+
+		if (sharedContacts.length > 0 && this.configService.get<string>("GHL_UPSERT_SHARED_CONTACTS") === "true") {
+			await this.upsertSharedContacts(instance, sharedContacts.map(contact => contact.card), phone);
+		}
+
+		return ghlMessageId;
+	}
+
+	/**
+	 * Creates GHL contacts for the vCards a customer shared, tagged with who shared them
+	 * Best effort: a contact that fails is logged and skipped
+	 */
+	private async upsertSharedContacts(
+		instance: Instance & { user: User },
+		cards: ParsedVCard[],
+		sharedByPhone: string,
+	): Promise<void> {
+		for (const card of cards) {
+			if (card.phones.length === 0) {
+				this.logger.debug(`Skipping shared contact "${card.name}" without a phone number`);
+				continue;
+			}
+			try {
+				await this.upsertContact(instance.user, {
 					locationId: instance.user.id,
-					message: messageText,
-					text: messageText,
-					direction: "inbound",
-					attachments: attachments.length > 0 ? attachments : undefined,
-				},
-			);
+					phone: card.phones[0],
+					name: card.name,
+					email: card.emails[0],
+					companyName: card.organization,
+					source: "WhatsApp shared contact",
+					tags: ["whatsapp-shared-contact", `shared-by-${normalizePhone(sharedByPhone)}`],
+				});
+			} catch (error) {
+				this.logger.warn(`Failed to upsert shared contact ${card.phones[0]}: ${error.message}`);
+			}
 		}
 	}
 
+	/**
+	 * Posts an inbound entry to the contact's GHL conversation, creating the contact if needed
+	 * A button, list or poll selection is stored in the GHL_SELECTION_CUSTOM_FIELD_KEY custom field, so workflows can branch on it
+	 * Returns the GHL message ID
+	 */
+	private async deliverInboundToGhl(
+		instance: Instance & { user: User },
+		contact: { phone: string; name: string; selection?: string },
+		messageText: string,
+		attachments: Array<{ url: string; fileName?: string; type?: string }> = [],
+	): Promise<string | undefined> {
+		const { phone, name, selection } = contact;
+		const selectionFieldKey = this.configService.get<string>("GHL_SELECTION_CUSTOM_FIELD_KEY");
+
+		// Upsert contact in GHL
+		const contactResponse = await this.upsertContact(instance.user, {
+			locationId: instance.user.id,
+			phone,
+			name,
+			source: "WhatsApp",
+			...(selection && selectionFieldKey ? { customFields: [{ key: selectionFieldKey, field_value: selection }] } : {}),
+		});
+
+		// Remember which number this contact talks to, so replies go out from it
+		try {
+			await this.prisma.upsertContactRoute({
+				userId: instance.user.id,
+				contactPhone: normalizePhone(phone),
+				ghlContactId: contactResponse.contact.id,
+				instanceId: instance.id,
+			});
+		} catch (routeError) {
+			this.logger.warn(`Failed to store contact route for ${phone}: ${routeError.message}`);
+		}
+
+		// Send message to GHL conversation
+		return this.sendMessageToGhlConversation(
+			instance.user,
+			contactResponse.contact.id,
+			{
+				contactId: contactResponse.contact.id,
+				locationId: instance.user.id,
+				message: messageText,
+				text: messageText,
+				direction: "inbound",
+				attachments: attachments.length > 0 ? attachments : undefined,
+			},
+		);
+	}
+
+
+
+	/**
+	 * Adds a note about a reaction, edit or deletion to the contact, linked to the GHL message it refers to
+	 * Notes do not count as customer replies, so they neither trigger workflows nor mark the conversation unread
+	 */
+	private async postMessageNote(
+		instance: Instance & { user: User },
+		phone: string,
+		note: string,
+		ghlMessageId?: string,
+	): Promise<void> {
+		const route = await this.prisma.findContactRoute(instance.user.id, { contactPhone: normalizePhone(phone) });
+		const contactId = route?.ghlContactId || (await this.upsertContact(instance.user, {
+			locationId: instance.user.id,
+			phone,
+			name: phone,
+			source: "WhatsApp",
+		})).contact.id;
+
+		const body = ghlMessageId ? `${note}\n(GHL message ${ghlMessageId})` : note;
+		await this.addContactNote(instance.user, contactId, body);
+	}
+
+	/**
+	 * Note for a revoked or edited message, referencing the original GHL message
+	 * Returns undefined for other protocol messages (history sync, ephemeral settings, ...)
+	 */
+	private async describeProtocolMessage(
+		instance: Instance & { user: User },
+		protocol: EvolutionProtocolMessage | undefined,
+	): Promise<{ note: string; ghlMessageId?: string } | undefined> {
+		if (!protocol) {
+			return undefined;
+		}
+		const type = protocol.type;
+		const isRevoke = type === PROTOCOL_MESSAGE_REVOKE || type === "REVOKE";
+		const isEdit = type === PROTOCOL_MESSAGE_EDIT || type === "MESSAGE_EDIT" || !!protocol.editedMessage;
+		if (!isRevoke && !isEdit) {
+			return undefined;
+		}
+
+		const original = await this.findReferencedMessage(instance, protocol.key?.id);
+		const ghlMessageId = original?.ghlMessageId;
+		if (isRevoke) {
+			return {
+				note: original?.text ? `🚫 Deleted a message: "${original.text}"` : "🚫 Deleted a message",
+				ghlMessageId,
+			};
+		}
 
+		const edited = protocol.editedMessage;
+		const newText = edited?.conversation ||
+			edited?.extendedTextMessage?.text ||
+			edited?.imageMessage?.caption ||
+			edited?.videoMessage?.caption ||
+			"";
+		return {
+			note: original?.text
+				? `✏️ Edited a message: "${original.text}"\n${newText}`
+				: `✏️ Edited a message:\n${newText}`,
+			ghlMessageId,
+		};
+	}
+
+	/**
+	 * GHL message a WhatsApp message ID maps to, with its text shortened to a single line if it can be loaded
+	 */
+	private async findReferencedMessage(
+		instance: Instance & { user: User },
+		evolutionMsgId: string | undefined,
+	): Promise<{ ghlMessageId: string; text?: string } | undefined> {
+		if (!evolutionMsgId) {
+			return undefined;
+		}
+		const ghlMessageId = await this.prisma.findGhlMessageIdByEvolutionId(instance.id, evolutionMsgId);
+		if (!ghlMessageId) {
+			return undefined;
+		}
+
+		try {
+			const { client } = await this.getValidGhlClient(instance.user);
+			const response = await client.get(`/conversations/messages/${ghlMessageId}`);
+			const body: string | undefined = response.data?.message?.body ?? response.data?.body;
+			if (!body) {
+				return { ghlMessageId };
+			}
+			const line = body.replace(/\s+/g, " ").trim();
+			return {
+				ghlMessageId,
+				text: line.length > QUOTE_MAX_LENGTH ? `${line.substring(0, QUOTE_MAX_LENGTH)}…` : line,
+			};
+		} catch (error) {
+			this.logger.warn(`Failed to load GHL message ${ghlMessageId}: ${error.message}`);
+			return { ghlMessageId };
+		}
+	}
+
+	/**
+	 * Quoted message of a reply as "> text" lines, or undefined if the message is not a reply
+	 */
+	private formatQuotedMessage(msg: EvolutionMessage): string | undefined {
+		const content = msg.message;
+		const context = msg.contextInfo ||
+			content?.extendedTextMessage?.contextInfo ||
+			content?.imageMessage?.contextInfo ||
+			content?.videoMessage?.contextInfo ||
+			content?.audioMessage?.contextInfo ||
+			content?.documentMessage?.contextInfo ||
+			content?.stickerMessage?.contextInfo;
+		const quoted = context?.quotedMessage;
+		if (!quoted) {
+			return undefined;
+		}
+
+		let text = quoted.conversation ||
+			quoted.extendedTextMessage?.text ||
+			quoted.imageMessage?.caption ||
+			quoted.videoMessage?.caption ||
+			quoted.documentMessage?.caption;
+		if (!text) {
+			if (quoted.imageMessage) text = "📷 Photo";
+			else if (quoted.videoMessage) text = "🎥 Video";
+			else if (quoted.audioMessage) text = "🎤 Voice message";
+			else if (quoted.documentMessage) text = `📄 ${quoted.documentMessage.fileName || "Document"}`;
+			else if (quoted.stickerMessage) text = "Sticker";
+			else if (quoted.locationMessage) text = "📍 Location";
+			else if (quoted.contactMessage) text = `👤 ${quoted.contactMessage.displayName}`;
+			else if (quoted.contactsArrayMessage) text = `👤 ${quoted.contactsArrayMessage.contacts?.length || 0} contacts`;
+			else text = "Message";
+		}
+
+		if (text.length > QUOTE_MAX_LENGTH) {
+			text = `${text.substring(0, QUOTE_MAX_LENGTH)}…`;
+		}
+		return text.split("\n").map(line => `> ${line}`).join("\n");
+	}
 
 	/**
 	 * Sends a message to a GHL conversation
+	 * Returns the ID GHL assigned to the message
 	 */
 	private async sendMessageToGhlConversation(
 		user: User,
 		contactId: string,
 		message: GhlPlatformMessage,
-	): Promise<void> {
+	): Promise<string | undefined> {
 		const { client } = await this.getValidGhlClient(user);
 
 		let conversationId: string | undefined;
@@ -656,7 +1320,7 @@ export class GhlService {
 		const conversationProviderId = this.configService.get<string>("GHL_CONVERSATION_PROVIDER_ID");
 		
 		try {
-			await client.post("/conversations/messages/inbound", {
+			const response = await client.post("/conversations/messages/inbound", {
 				type: "Custom",
 				conversationId: conversationId,
 				conversationProviderId: conversationProviderId,
@@ -664,12 +1328,55 @@ export class GhlService {
 				attachments: message.attachments,
 			});
 			this.logger.log(`Message sent to GHL conversation ${conversationId}`);
+			return response.data?.messageId;
 		} catch (error) {
 			this.logger.error(`Failed to send message to GHL conversation: ${error.message}`);
 			throw error;
 		}
 	}
 
+	/**
+	 * Picks the instance an outbound message to a contact should be sent from.
+	 * Order: the instance that last received a message from the contact, then the
+	 * location's default instance, then any connected instance. A connected
+	 * candidate always wins over a disconnected one; if none is connected the
+	 * best disconnected candidate is returned so the caller can report it.
+	 */
+	async resolveOutboundInstance(
+		user: User,
+		contact: { contactId?: string; phone?: string },
+	): Promise<Instance | null> {
+		const instances = await this.prisma.getInstancesByUserId(user.id);
+		if (instances.length === 0) {
+			return null;
+		}
+
+		const candidates: Instance[] = [];
+
+		const route = await this.prisma.findContactRoute(user.id, {
+			ghlContactId: contact.contactId,
+			contactPhone: contact.phone ? normalizePhone(contact.phone) : undefined,
+		});
+		if (route) {
+			candidates.push(route.instance);
+		}
+
+		if (user.defaultInstanceId) {
+			const defaultInstance = instances.find(i => i.id === user.defaultInstanceId);
+			if (defaultInstance) {
+				candidates.push(defaultInstance);
+			}
+		}
+
+		candidates.push(...instances);
+
+		const selected = candidates.find(i => i.stateInstance === InstanceStateEnum.open) || candidates[0];
+		if (route && selected.id !== route.instanceId) {
+			this.logger.warn(`Routed instance ${route.instance.instanceName} is not connected, using ${selected.instanceName}`);
+		}
+		return selected;
+	}
+
 	/**
 	 * Handles outbound messages from GHL to WhatsApp
 	 */
@@ -691,66 +1398,168 @@ export class GhlService {
 		}
 
 		const chatId = formatPhoneNumber(phone);
-		let evolutionMsgId: string | undefined;
-
-		try {
-			if (webhookData.attachments?.length) {
-				for (const attachmentUrl of webhookData.attachments) {
-					// Extract filename from URL or use default
-					const fileName = attachmentUrl.split('/').pop() || "file";
-					const response = await client.sendFileByUrl({
-						chatId,
-						file: {
-							url: attachmentUrl,
-							fileName,
-						},
-						caption: webhookData.message,
-					});
-					evolutionMsgId = response.idMessage;
+		const parts = composeOutboundParts(webhookData.message, webhookData.attachments);
+		const quotedMessageId = webhookData.replyToMessageId
+			? await this.findQuotableMessageId(instance, webhookData.replyToMessageId)
+			: undefined;
+
+		for (const [partIndex, part] of parts.entries()) {
+			// Only the first part carries the reply context
+			const quoted = partIndex === 0 ? quotedMessageId : undefined;
+			let evolutionMsgId: string;
+			try {
+				evolutionMsgId = part.kind === "text"
+					? (await client.sendMessage({ chatId, message: part.text, quotedMessageId: quoted })).idMessage
+					: await this.sendOutboundPart(instance, chatId, part, quoted);
+			} catch (error) {
+				this.logger.error(`Failed to send message part ${partIndex + 1}/${parts.length} to WhatsApp: ${error.message}`);
+				if (webhookData.messageId) {
+					await this.recordFailedOutboundPart(instance, webhookData.messageId, partIndex, phone);
 				}
-			} else if (webhookData.message) {
-				const response = await client.sendMessage({
-					chatId,
-					message: webhookData.message,
-				});
-				evolutionMsgId = response.idMessage;
+				throw new HttpException("Failed to send WhatsApp message", HttpStatus.INTERNAL_SERVER_ERROR);
 			}
 
-			this.logger.log(`Message sent to WhatsApp: ${chatId}, Evolution ID: ${evolutionMsgId}`);
+			this.logger.log(`Message part ${partIndex + 1}/${parts.length} sent to WhatsApp: ${chatId}, Evolution ID: ${evolutionMsgId}`);
 
 			// Store message ID mapping FIRST - before any other API calls
 			// This prevents race condition where status webhook arrives before mapping exists
-			if (evolutionMsgId && webhookData.messageId && evolutionMsgId !== "sent") {
+			if (webhookData.messageId && evolutionMsgId !== "sent") {
 				try {
 					await this.prisma.createSentMessage({
 						ghlMessageId: webhookData.messageId,
+						partIndex,
 						evolutionMsgId: evolutionMsgId,
 						instanceId: instance.id,
 						contactPhone: phone,
 					});
-					this.logger.debug(`Stored message mapping: GHL ${webhookData.messageId} -> Evolution ${evolutionMsgId}`);
+					this.logger.debug(`Stored message mapping: GHL ${webhookData.messageId}#${partIndex} -> Evolution ${evolutionMsgId}`);
 				} catch (mapError) {
 					// Don't fail the send if we can't store the mapping
 					this.logger.warn(`Failed to store message mapping: ${mapError.message}`);
 				}
 			}
+		}
 
-			// Now mark as "sent" in GHL (slower network call)
-			// Real "delivered" and "read" statuses come via Evolution API webhooks
-			try {
-				const { client: ghlClient } = await this.getValidGhlClient(instance.user);
-				await ghlClient.put(
-					`/conversations/messages/${webhookData.messageId}/status`,
-					{ status: "sent" },
-				);
-				this.logger.log(`Marked GHL message ${webhookData.messageId} as sent`);
-			} catch (statusError) {
-				this.logger.warn(`Failed to mark message as sent: ${statusError.message}`);
+		// Now mark as "sent" in GHL (slower network call)
+		// Real "delivered" and "read" statuses come via Evolution API webhooks
+		await this.setGhlMessageStatus(instance.user, webhookData.messageId, "sent");
+	}
+
+	/**
+	 * Records a part that could not be sent and reports the combined status of the message's parts to GHL,
+	 * so a message whose first parts went out still shows as failed
+	 */
+	private async recordFailedOutboundPart(
+		instance: Instance & { user: User },
+		ghlMessageId: string,
+		partIndex: number,
+		phone: string,
+	): Promise<void> {
+		try {
+			await this.prisma.createSentMessage({
+				ghlMessageId,
+				partIndex,
+				// No WhatsApp message exists for a failed part, so no receipt can ever match this ID
+				evolutionMsgId: `failed:${ghlMessageId}#${partIndex}`,
+				instanceId: instance.id,
+				contactPhone: phone,
+				status: "failed",
+			});
+		} catch (mapError) {
+			this.logger.warn(`Failed to record failed part ${ghlMessageId}#${partIndex}: ${mapError.message}`);
+		}
+
+		const parts = await this.prisma.getSentMessageParts(ghlMessageId).catch(() => []);
+		const status = rollupSentStatus(parts.map(part => part.status)) ?? "failed";
+		await this.setGhlMessageStatus(instance.user, ghlMessageId, status);
+	}
+
+	/**
+	 * Sets the status of a GHL message; best-effort, a failure is only logged
+	 */
+	private async setGhlMessageStatus(user: User, ghlMessageId: string, status: SentMessageStatus): Promise<void> {
+		try {
+			const { client: ghlClient } = await this.getValidGhlClient(user);
+			await ghlClient.put(
+				`/conversations/messages/${ghlMessageId}/status`,
+				{ status },
+			);
+			this.logger.log(`Marked GHL message ${ghlMessageId} as ${status}`);
+		} catch (statusError) {
+			this.logger.warn(`Failed to mark message as ${status}: ${statusError.message}`);
+		}
+	}
+
+	/**
+	 * WhatsApp message ID of a GHL message, for sending a quoted reply to it
+	 * WhatsApp can only quote messages of the same chat, so the mapping must belong to the sending instance
+	 */
+	private async findQuotableMessageId(instance: Instance, ghlMessageId: string): Promise<string | undefined> {
+		const sent = await this.prisma.findSentMessageByGhlId(ghlMessageId);
+		if (sent && sent.instanceId === instance.id) {
+			return sent.evolutionMsgId;
+		}
+		const inbound = await this.prisma.findInboundMessageByGhlId(ghlMessageId);
+		if (inbound && inbound.instanceId === instance.id) {
+			return inbound.evolutionMsgId;
+		}
+		this.logger.debug(`No WhatsApp message known for GHL message ${ghlMessageId}, sending without quote`);
+		return undefined;
+	}
+
+	/**
+	 * Sends a non-text part of a GHL message (attachment, location or contact card)
+	 * Returns the Evolution message ID
+	 */
+	private async sendOutboundPart(
+		instance: Instance,
+		chatId: string,
+		part: Exclude<OutboundPart, { kind: "text" }>,
+		quotedMessageId?: string,
+	): Promise<string> {
+		if (part.kind === "media") {
+			return this.sendMediaByUrl(instance, chatId, part.url, part.fileName, undefined, quotedMessageId);
+		}
+		const client = new EvolutionApiClient(instance.evolutionApiUrl, instance.evolutionApiKey);
+		const response = part.kind === "location"
+			? await client.sendLocation(instance.instanceName, chatId, part.location, quotedMessageId)
+			: await client.sendContact(instance.instanceName, chatId, [part.contact], quotedMessageId);
+		return response.key?.id || "sent";
+	}
+
+	/**
+	 * Sends a file by URL with the WhatsApp media type matching its content, so images and videos show inline
+	 * Audio goes out as a voice note; voice notes carry no caption, so it is sent as a text message first
+	 * Returns the Evolution message ID
+	 */
+	private async sendMediaByUrl(
+		instance: Instance,
+		chatId: string,
+		url: string,
+		fileName: string,
+		caption?: string,
+		quotedMessageId?: string,
+	): Promise<string> {
+		const { mediatype, mimetype } = await this.mediaService.detectOutboundMedia(url, fileName);
+		const client = new EvolutionApiClient(instance.evolutionApiUrl, instance.evolutionApiKey);
+
+		if (mediatype === "audio") {
+			if (caption) {
+				await client.sendText(instance.instanceName, chatId, caption);
 			}
-		} catch (error) {
-			this.logger.error(`Failed to send WhatsApp message: ${error.message}`);
-			throw new HttpException("Failed to send WhatsApp message", HttpStatus.INTERNAL_SERVER_ERROR);
+			const response = await client.sendWhatsAppAudio(instance.instanceName, chatId, url, mimetype, quotedMessageId);
+			return response.key?.id || "sent";
 		}
+
+		const response = await client.sendMedia(instance.instanceName, chatId, {
+			mediatype,
+			mimetype,
+			media: url,
+			fileName,
+			caption,
+			quotedMessageId,
+		});
+		return response.key?.id || "sent";
 	}
 
 	/**
@@ -769,10 +1578,12 @@ export class GhlService {
 			throw new NotFoundException(`Location ${locationId} not found`);
 		}
 
-		const instances = await this.prisma.getInstancesByUserId(locationId);
-		const activeInstance = instances.find(i => i.stateInstance === InstanceStateEnum.open);
+		const activeInstance = await this.resolveOutboundInstance(user, {
+			contactId: webhookData.contactId,
+			phone: webhookData.phone,
+		});
 
-		if (!activeInstance) {
+		if (!activeInstance || activeInstance.stateInstance !== InstanceStateEnum.open) {
 			this.logger.warn(`No active WhatsApp instance for location ${locationId}`);
 			return { success: false };
 		}
@@ -802,10 +1613,12 @@ export class GhlService {
 			return { success: false, error: "Location not found" };
 		}
 
-		const instances = await this.prisma.getInstancesByUserId(locationId);
-		const activeInstance = instances.find(i => i.stateInstance === InstanceStateEnum.open);
+		const activeInstance = await this.resolveOutboundInstance(user, {
+			contactId: data.contactId,
+			phone: data.phone,
+		});
 
-		if (!activeInstance) {
+		if (!activeInstance || activeInstance.stateInstance !== InstanceStateEnum.open) {
 			return { success: false, error: "No active WhatsApp instance" };
 		}
 
@@ -823,16 +1636,35 @@ export class GhlService {
 					break;
 				case "send_file":
 					if (data.phone && data.fileUrl) {
-						await client.sendFileByUrl({
-							chatId: formatPhoneNumber(data.phone),
-							file: {
-								url: data.fileUrl,
-								fileName: data.fileName || "file",
-							},
-							caption: data.message,
-						});
+						await this.sendMediaByUrl(
+							activeInstance,
+							formatPhoneNumber(data.phone),
+							data.fileUrl,
+							data.fileName || "file",
+							data.message,
+						);
+					}
+					break;
+				case "send_location": {
+					const location = parseLocation(`${data.latitude},${data.longitude}`, data.locationName, data.address);
+					if (!location) {
+						return { success: false, error: "A valid latitude and longitude are required" };
+					}
+					if (data.phone) {
+						await this.sendOutboundPart(activeInstance, formatPhoneNumber(data.phone), { kind: "location", location });
 					}
 					break;
+				}
+				case "send_contact": {
+					const contact = parseContactCard(data.contactName, data.contactPhone, data.contactEmail, data.contactOrganization);
+					if (!contact) {
+						return { success: false, error: "A contact name and phone number are required" };
+					}
+					if (data.phone) {
+						await this.sendOutboundPart(activeInstance, formatPhoneNumber(data.phone), { kind: "contact", contact });
+					}
+					break;
+				}
 				default:
 					return { success: false, error: `Unknown action type: ${data.actionType}` };
 			}
@@ -861,4 +1693,35 @@ export class GhlService {
 			return { state: "error" };
 		}
 	}
+
+	/**
+	 * Health summary of an instance for the custom page: live state, uptime over the last days,
+	 * last disconnect and message activity
+	 */
+	async getInstanceHealth(instance: Instance, days: number): Promise<InstanceHealth> {
+		const now = new Date();
+		const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+		const [live, history, lastDisconnect, messageTimes] = await Promise.all([
+			this.getInstanceStatus(instance),
+			this.prisma.getConnectionHistory(instance.id, since),
+			this.prisma.findLastDisconnect(instance.id),
+			this.prisma.getLastMessageTimes(instance.id),
+		]);
+
+		return {
+			instanceId: instance.id.toString(),
+			state: instance.stateInstance,
+			liveState: live.state,
+			uptimePercent: computeUptime(history.initial?.state ?? null, history.events, since, now),
+			uptimeDays: days,
+			lastDisconnect: lastDisconnect ? {
+				at: lastDisconnect.createdAt,
+				statusReason: lastDisconnect.statusReason,
+				reason: describeDisconnectReason(lastDisconnect.statusReason),
+			} : null,
+			lastInboundAt: messageTimes.lastInboundAt,
+			lastOutboundAt: messageTimes.lastOutboundAt,
+		};
+	}
 }
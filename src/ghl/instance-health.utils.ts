@@ -0,0 +1,65 @@
+import type { InstanceState } from "@prisma/client";
+
+/**
+ * Percentage of the period [from, to] an instance spent connected ("open")
+ * The period starts in initialState (the last transition before it); when that is unknown it starts at the
+ * first event instead. Returns null when nothing is known about the period.
+ *
+ * @example
+ * // open for the first 6 of 8 hours, then closed
+ * computeUptime("open", [{ state: "close", createdAt: sixHoursIn }], start, start + 8h) // 75
+ */
+export function computeUptime(
+	initialState: InstanceState | null,
+	events: Array<{ state: InstanceState; createdAt: Date }>,
+	from: Date,
+	to: Date,
+): number | null {
+	let state = initialState;
+	let cursor = from.getTime();
+	let known = 0;
+	let open = 0;
+
+	for (const event of events) {
+		const at = Math.min(Math.max(event.createdAt.getTime(), from.getTime()), to.getTime());
+		if (state) {
+			known += at - cursor;
+			if (state === "open") {
+				open += at - cursor;
+			}
+		}
+		state = event.state;
+		cursor = at;
+	}
+	if (state) {
+		known += to.getTime() - cursor;
+		if (state === "open") {
+			open += to.getTime() - cursor;
+		}
+	}
+
+	return known > 0 ? Math.round((open / known) * 1000) / 10 : null;
+}
+
+// WhatsApp (Baileys) disconnect reasons, reported as statusReason in CONNECTION_UPDATE
+const DISCONNECT_REASONS: Record<number, string> = {
+	401: "Logged out from the phone",
+	403: "Number banned or access forbidden",
+	408: "Connection lost or timed out",
+	411: "Multi-device mismatch",
+	428: "Connection closed",
+	440: "Session replaced by another connection",
+	500: "Bad session, pair again",
+	503: "WhatsApp service unavailable",
+	515: "Restart required",
+};
+
+/**
+ * Human readable text for a disconnect reason code
+ */
+export function describeDisconnectReason(statusReason: number | null | undefined): string | null {
+	if (statusReason === null || statusReason === undefined) {
+		return null;
+	}
+	return DISCONNECT_REASONS[statusReason] || `Disconnected (code ${statusReason})`;
+}
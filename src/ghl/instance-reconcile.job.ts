@@ -0,0 +1,58 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PrismaService } from "../prisma/prisma.service";
+import { SchedulerService } from "../scheduler/scheduler.service";
+import { GhlService } from "./ghl.service";
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+/**
+ * Polls Evolution API for every instance's connection state and webhook, so a missed CONNECTION_UPDATE
+ * doesn't leave an instance marked as closed (blocking outbound messages) or open forever
+ */
+@Injectable()
+export class InstanceReconcileJob implements OnModuleInit {
+	private readonly logger = new Logger(InstanceReconcileJob.name);
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly ghlService: GhlService,
+		private readonly scheduler: SchedulerService,
+		private readonly configService: ConfigService,
+	) {}
+
+	onModuleInit() {
+		const intervalMinutes = Number(this.configService.get("INSTANCE_RECONCILE_INTERVAL_MINUTES")) || DEFAULT_INTERVAL_MINUTES;
+
+		this.scheduler.register({
+			name: "reconcile-instances",
+			description: "Sync instance state and webhook registration with Evolution API",
+			intervalMs: intervalMinutes * 60 * 1000,
+			run: () => this.reconcileInstances(),
+		});
+	}
+
+	async reconcileInstances(): Promise<{ affected: number }> {
+		const instances = await this.prisma.getAllInstances();
+
+		let fixed = 0;
+		let failed = 0;
+		for (const instance of instances) {
+			try {
+				const result = await this.ghlService.reconcileInstance(instance);
+				if (result.stateFixed || result.webhookFixed) {
+					fixed++;
+				}
+			} catch (error) {
+				failed++;
+				this.logger.warn(`Failed to reconcile instance ${instance.instanceName}: ${error.message}`);
+			}
+		}
+
+		if (failed > 0) {
+			throw new Error(`Could not reach Evolution API for ${failed} of ${instances.length} instances (${fixed} fixed)`);
+		}
+
+		return { affected: fixed };
+	}
+}
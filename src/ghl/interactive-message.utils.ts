@@ -0,0 +1,72 @@
+import { EvolutionMessage } from "./types/evolution-webhook.types";
+
+/**
+ * Readable text for a poll, list or button message, plus the contact's selection when it is a reply
+ */
+export interface InteractiveMessageText {
+	text: string;
+	selection?: {
+		id?: string;
+		text: string;
+	};
+}
+
+/**
+ * Renders polls, poll votes, list replies and button replies as text for GHL
+ * Returns undefined for any other message content
+ */
+export function renderInteractiveMessage(content: EvolutionMessage["message"]): InteractiveMessageText | undefined {
+	if (!content) {
+		return undefined;
+	}
+
+	const poll = content.pollCreationMessage || content.pollCreationMessageV3;
+	if (poll) {
+		return {
+			text: [
+				`📊 Poll: ${poll.name}`,
+				...poll.options.map((option, index) => `${index + 1}. ${option.optionName}`),
+				poll.selectableOptionsCount === 1 ? "(Single answer only)" : "(Multiple answers allowed)",
+			].join("\n"),
+		};
+	}
+
+	if (content.pollUpdateMessage) {
+		const selected = (content.pollUpdateMessage.vote?.selectedOptions || [])
+			.filter((option): option is string => typeof option === "string");
+		if (selected.length === 0) {
+			return {text: "📊 Voted in a poll"};
+		}
+		const choice = selected.join(", ");
+		return {text: `📊 Voted: ${choice}`, selection: {text: choice}};
+	}
+
+	if (content.listResponseMessage) {
+		const reply = content.listResponseMessage;
+		const choice = reply.title || reply.singleSelectReply?.selectedRowId || "";
+		return {
+			text: [`✅ Selected: ${choice}`, reply.description].filter(Boolean).join("\n"),
+			selection: {id: reply.singleSelectReply?.selectedRowId, text: choice},
+		};
+	}
+
+	if (content.buttonsResponseMessage) {
+		const reply = content.buttonsResponseMessage;
+		const choice = reply.selectedDisplayText || reply.selectedButtonId || "";
+		return {
+			text: `✅ Selected: ${choice}`,
+			selection: {id: reply.selectedButtonId, text: choice},
+		};
+	}
+
+	if (content.templateButtonReplyMessage) {
+		const reply = content.templateButtonReplyMessage;
+		const choice = reply.selectedDisplayText || reply.selectedId || "";
+		return {
+			text: `✅ Selected: ${choice}`,
+			selection: {id: reply.selectedId, text: choice},
+		};
+	}
+
+	return undefined;
+}
@@ -59,3 +59,18 @@ export function formatJid(phone: string, type: "private" | "group" = "private"):
   const cleaned = phone.replace(/\D/g, "");
   return type === "group" ? `${cleaned}@g.us` : `${cleaned}@c.us`;
 }
+
+/**
+ * Normalizes a phone number or JID to digits only
+ * Used as a stable key when matching contacts across GHL and WhatsApp
+ *
+ * @param phone - Phone number or JID (e.g., "+31 612 345 678", "31612345678@s.whatsapp.net")
+ * @returns Digits only, empty string if falsy input
+ *
+ * @example
+ * normalizePhone("+31 612 345 678")             // "31612345678"
+ * normalizePhone("31612345678@s.whatsapp.net")  // "31612345678"
+ */
+export function normalizePhone(phone: string | null | undefined): string {
+  return extractPhoneFromJid(phone).replace(/\D/g, "");
+}
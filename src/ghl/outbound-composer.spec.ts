@@ -0,0 +1,125 @@
+import {
+	composeOutboundParts, isStatusAdvance, parseContactCard, parseLocation, rollupSentStatus,
+} from "./outbound-composer";
+
+describe("outbound-composer", () => {
+	describe("composeOutboundParts", () => {
+		it("should send the text first, then cards, then attachments", () => {
+			const parts = composeOutboundParts(
+				"Our office:\n[location: 52.3731, 4.8922 | Office | Damrak 1, Amsterdam]\n[contact: Jane Doe | +31 6 1234 5678]\nSee you there",
+				["https://example.com/files/menu.pdf?alt=media", "https://example.com/photo.jpg"],
+			);
+
+			expect(parts.map(part => part.kind)).toEqual(["text", "location", "contact", "media", "media"]);
+			expect(parts[0]).toEqual({ kind: "text", text: "Our office:\nSee you there" });
+			expect(parts[1]).toEqual({
+				kind: "location",
+				location: { latitude: 52.3731, longitude: 4.8922, name: "Office", address: "Damrak 1, Amsterdam" },
+			});
+			expect(parts[2]).toEqual({ kind: "contact", contact: { fullName: "Jane Doe", phoneNumber: "31612345678" } });
+			expect(parts[3]).toEqual({ kind: "media", url: "https://example.com/files/menu.pdf?alt=media", fileName: "menu.pdf" });
+			expect(parts[4]).toEqual({ kind: "media", url: "https://example.com/photo.jpg", fileName: "photo.jpg" });
+		});
+
+		it("should send a text-only message as one part, unchanged", () => {
+			expect(composeOutboundParts("  Hello\n\nthere  ", undefined)).toEqual([{ kind: "text", text: "  Hello\n\nthere  " }]);
+		});
+
+		it("should send attachments without a text part when there is no text", () => {
+			expect(composeOutboundParts("", ["https://example.com/a.png"])).toEqual([
+				{ kind: "media", url: "https://example.com/a.png", fileName: "a.png" },
+			]);
+			expect(composeOutboundParts(undefined, ["https://example.com/"])).toEqual([
+				{ kind: "media", url: "https://example.com/", fileName: "file" },
+			]);
+		});
+
+		it("should drop the text part when the message only holds cards", () => {
+			const parts = composeOutboundParts("[location: 1, 2]\n", []);
+			expect(parts).toEqual([{ kind: "location", location: { latitude: 1, longitude: 2 } }]);
+		});
+
+		it("should keep malformed card lines as text", () => {
+			const message = "[location: 91, 4.89]\n[location: here]\n[contact: Jane Doe]\n[contact: | +31612345678]";
+			expect(composeOutboundParts(message, [])).toEqual([{ kind: "text", text: message }]);
+		});
+
+		it("should only treat card syntax on a line of its own as a card", () => {
+			const message = "Meet at [location: 52.37, 4.89] tomorrow";
+			expect(composeOutboundParts(message, [])).toEqual([{ kind: "text", text: message }]);
+		});
+
+		it("should return no parts for an empty message", () => {
+			expect(composeOutboundParts("   ", [])).toEqual([]);
+		});
+	});
+
+	describe("parseLocation", () => {
+		it("should parse coordinates with an optional name and address", () => {
+			expect(parseLocation("-33.8568, 151.2153", "Opera House", "")).toEqual({
+				latitude: -33.8568,
+				longitude: 151.2153,
+				name: "Opera House",
+				address: undefined,
+			});
+		});
+
+		it("should reject missing, extra or out of range coordinates", () => {
+			expect(parseLocation(undefined)).toBeNull();
+			expect(parseLocation("52.37")).toBeNull();
+			expect(parseLocation("52.37, ")).toBeNull();
+			expect(parseLocation("1, 2, 3")).toBeNull();
+			expect(parseLocation("north, east")).toBeNull();
+			expect(parseLocation("90.1, 0")).toBeNull();
+			expect(parseLocation("0, -180.5")).toBeNull();
+		});
+	});
+
+	describe("parseContactCard", () => {
+		it("should keep only the digits of the phone number", () => {
+			expect(parseContactCard(" Jane Doe ", "+1 (555) 010-0000", "jane@example.com", "Acme")).toEqual({
+				fullName: "Jane Doe",
+				phoneNumber: "15550100000",
+				email: "jane@example.com",
+				organization: "Acme",
+			});
+		});
+
+		it("should require a name and a phone number", () => {
+			expect(parseContactCard("Jane Doe", undefined)).toBeNull();
+			expect(parseContactCard("Jane Doe", "n/a")).toBeNull();
+			expect(parseContactCard("  ", "+31612345678")).toBeNull();
+		});
+	});
+
+	describe("isStatusAdvance", () => {
+		it("should only move statuses forward", () => {
+			expect(isStatusAdvance("sent", "delivered")).toBe(true);
+			expect(isStatusAdvance("delivered", "read")).toBe(true);
+			expect(isStatusAdvance("read", "delivered")).toBe(false);
+			expect(isStatusAdvance("delivered", "delivered")).toBe(false);
+		});
+
+		it("should let a failure win but never leave failed", () => {
+			expect(isStatusAdvance("read", "failed")).toBe(true);
+			expect(isStatusAdvance("failed", "read")).toBe(false);
+			expect(isStatusAdvance("failed", "failed")).toBe(false);
+		});
+	});
+
+	describe("rollupSentStatus", () => {
+		it("should report the least advanced part", () => {
+			expect(rollupSentStatus(["read", "delivered", "read"])).toBe("delivered");
+			expect(rollupSentStatus(["read", "sent"])).toBe("sent");
+			expect(rollupSentStatus(["read", "read"])).toBe("read");
+		});
+
+		it("should report failed when any part failed", () => {
+			expect(rollupSentStatus(["read", "failed", "delivered"])).toBe("failed");
+		});
+
+		it("should report nothing without parts", () => {
+			expect(rollupSentStatus([])).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,121 @@
+import type { SentMessageStatus } from "@prisma/client";
+import type { EvolutionContactCard, EvolutionLocationOptions } from "../evolution/evolution-api.client";
+
+export type OutboundPart =
+	| { kind: "text"; text: string }
+	| { kind: "media"; url: string; fileName: string }
+	| { kind: "location"; location: EvolutionLocationOptions }
+	| { kind: "contact"; contact: EvolutionContactCard };
+
+// A line of its own: [location: lat, lng | name | address] or [contact: name | phone | email | organization]
+const CARD_LINE = /^\s*\[(location|contact):([^\]]*)\]\s*$/i;
+
+/**
+ * Splits a GHL outbound message into the WhatsApp messages to send, in order:
+ * the text once, then every location/contact card line, then every attachment without a caption
+ *
+ * @example
+ * composeOutboundParts("Our office:\n[location: 52.3731, 4.8922 | Office | Damrak 1, Amsterdam]", [])
+ * // [{ kind: "text", text: "Our office:" }, { kind: "location", location: { latitude: 52.3731, ... } }]
+ */
+export function composeOutboundParts(message: string | undefined, attachments: string[] | undefined): OutboundPart[] {
+	const parts: OutboundPart[] = [];
+	const cards: OutboundPart[] = [];
+	const textLines: string[] = [];
+	for (const line of (message || "").split("\n")) {
+		const card = parseCardLine(line);
+		if (card) {
+			cards.push(card);
+		} else {
+			textLines.push(line);
+		}
+	}
+	const text = cards.length > 0 ? textLines.join("\n").trim() : message;
+	if (text?.trim()) {
+		parts.push({ kind: "text", text });
+	}
+	parts.push(...cards);
+	for (const url of attachments || []) {
+		// Extract filename from URL or use default
+		const fileName = url.split("?")[0].split("/").pop() || "file";
+		parts.push({ kind: "media", url, fileName });
+	}
+	return parts;
+}
+
+/**
+ * Location or contact card for a card line, null when the line is ordinary text or malformed
+ */
+function parseCardLine(line: string): OutboundPart | null {
+	const match = CARD_LINE.exec(line);
+	if (!match) {
+		return null;
+	}
+	const fields = match[2].split("|").map(field => field.trim());
+	if (match[1].toLowerCase() === "location") {
+		const location = parseLocation(fields[0], fields[1], fields[2]);
+		return location ? { kind: "location", location } : null;
+	}
+	const contact = parseContactCard(fields[0], fields[1], fields[2], fields[3]);
+	return contact ? { kind: "contact", contact } : null;
+}
+
+/**
+ * Location from a "lat, lng" pair, null when the coordinates are missing or out of range
+ */
+export function parseLocation(coordinates: string | undefined, name?: string, address?: string): EvolutionLocationOptions | null {
+	const values = (coordinates || "").split(",").map(value => value.trim());
+	const [latitude, longitude] = values.map(Number);
+	if (values.length !== 2 || values.includes("") || !Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+		return null;
+	}
+	return { latitude, longitude, name: name || undefined, address: address || undefined };
+}
+
+/**
+ * Contact card from its fields, null without a name or a phone number
+ */
+export function parseContactCard(fullName: string | undefined, phone: string | undefined, email?: string, organization?: string): EvolutionContactCard | null {
+	const phoneNumber = (phone || "").replace(/[^\d]/g, "");
+	if (!fullName?.trim() || !phoneNumber) {
+		return null;
+	}
+	return { fullName: fullName.trim(), phoneNumber, email: email || undefined, organization: organization || undefined };
+}
+
+// "failed" is terminal and handled separately
+const STATUS_PROGRESS: Record<SentMessageStatus, number> = {
+	pending: 0,
+	sent: 1,
+	delivered: 2,
+	read: 3,
+	failed: 4,
+};
+
+/**
+ * Whether a part may move from its current status to the reported one
+ * Receipts can arrive out of order, so statuses only move forward; a failure always wins
+ */
+export function isStatusAdvance(current: SentMessageStatus, next: SentMessageStatus): boolean {
+	if (current === "failed") {
+		return false;
+	}
+	if (next === "failed") {
+		return true;
+	}
+	return STATUS_PROGRESS[next] > STATUS_PROGRESS[current];
+}
+
+/**
+ * Single GHL status for a message sent as several parts: failed if any part failed,
+ * otherwise the least advanced part (delivered only once every part is delivered)
+ */
+export function rollupSentStatus(statuses: SentMessageStatus[]): SentMessageStatus | null {
+	if (statuses.length === 0) {
+		return null;
+	}
+	if (statuses.includes("failed")) {
+		return "failed";
+	}
+	return statuses.reduce((lowest, status) => STATUS_PROGRESS[status] < STATUS_PROGRESS[lowest] ? status : lowest);
+}
@@ -0,0 +1,56 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PrismaService } from "../prisma/prisma.service";
+import { SchedulerService } from "../scheduler/scheduler.service";
+import { GhlService } from "./ghl.service";
+
+const DEFAULT_INTERVAL_MINUTES = 30;
+const DEFAULT_LEAD_MINUTES = 120;
+
+/**
+ * Refreshes GHL tokens before they expire, so quiet locations don't end up
+ * with a dead refresh token. Failures are recorded on the User by refreshUserTokens
+ */
+@Injectable()
+export class TokenRefreshJob implements OnModuleInit {
+	private readonly logger = new Logger(TokenRefreshJob.name);
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly ghlService: GhlService,
+		private readonly scheduler: SchedulerService,
+		private readonly configService: ConfigService,
+	) {}
+
+	onModuleInit() {
+		const intervalMinutes = Number(this.configService.get("TOKEN_REFRESH_INTERVAL_MINUTES")) || DEFAULT_INTERVAL_MINUTES;
+
+		this.scheduler.register({
+			name: "refresh-ghl-tokens",
+			description: "Refresh GHL tokens that expire within TOKEN_REFRESH_LEAD_MINUTES",
+			intervalMs: intervalMinutes * 60 * 1000,
+			run: () => this.refreshExpiringTokens(),
+		});
+	}
+
+	async refreshExpiringTokens(): Promise<{ affected: number }> {
+		const leadMinutes = Number(this.configService.get("TOKEN_REFRESH_LEAD_MINUTES")) || DEFAULT_LEAD_MINUTES;
+		const users = await this.prisma.getUsersWithExpiringTokens(new Date(Date.now() + leadMinutes * 60 * 1000));
+
+		let refreshed = 0;
+		for (const user of users) {
+			try {
+				await this.ghlService.refreshUserTokens(user);
+				refreshed++;
+			} catch (error) {
+				this.logger.warn(`Proactive token refresh failed for location ${user.id}`);
+			}
+		}
+
+		if (users.length > refreshed) {
+			throw new Error(`Refreshed ${refreshed} of ${users.length} locations`);
+		}
+
+		return { affected: refreshed };
+	}
+}
@@ -57,8 +57,18 @@ export interface EvolutionTextMessage {
 	};
 }
 
+/**
+ * Reply context attached to a message that quotes another one
+ */
+export interface EvolutionContextInfo {
+	stanzaId?: string;
+	participant?: string;
+	quotedMessage?: EvolutionMessage["message"];
+}
+
 export interface EvolutionMediaMessage {
 	caption?: string;
+	contextInfo?: EvolutionContextInfo;
 	mimetype?: string;
 	url?: string;
 	directPath?: string;
@@ -107,6 +117,54 @@ export interface EvolutionLocationMessage {
 	jpegThumbnail?: string;
 }
 
+export interface EvolutionPollCreationMessage {
+	name: string;
+	options: Array<{ optionName: string }>;
+	selectableOptionsCount?: number;
+}
+
+export interface EvolutionPollUpdateMessage {
+	pollCreationMessageKey?: EvolutionMessageKey;
+	vote?: {
+		// Option names once Evolution decrypted the vote, otherwise hashes
+		selectedOptions?: unknown[];
+	};
+}
+
+export interface EvolutionListResponseMessage {
+	title?: string;
+	description?: string;
+	singleSelectReply?: { selectedRowId?: string };
+}
+
+export interface EvolutionButtonsResponseMessage {
+	selectedButtonId?: string;
+	selectedDisplayText?: string;
+}
+
+export interface EvolutionTemplateButtonReplyMessage {
+	selectedId?: string;
+	selectedDisplayText?: string;
+	selectedIndex?: number;
+}
+
+export interface EvolutionReactionMessage {
+	key: EvolutionMessageKey;
+	text: string; // Emoji, empty when the reaction was removed
+}
+
+/**
+ * Protocol message types (WAProto), sent as number or enum name depending on the Evolution version
+ */
+export const PROTOCOL_MESSAGE_REVOKE = 0;
+export const PROTOCOL_MESSAGE_EDIT = 14;
+
+export interface EvolutionProtocolMessage {
+	key?: EvolutionMessageKey; // The message that was revoked or edited
+	type?: number | string;
+	editedMessage?: EvolutionMessage["message"];
+}
+
 export interface EvolutionContactMessage {
 	displayName: string;
 	vcard: string;
@@ -124,6 +182,7 @@ export interface EvolutionMessage {
 	pushName?: string;
 	messageTimestamp?: number | string;
 	messageType?: string;
+	contextInfo?: EvolutionContextInfo;
 	message?: {
 		conversation?: string;
 		extendedTextMessage?: {
@@ -132,6 +191,7 @@ export interface EvolutionMessage {
 			canonicalUrl?: string;
 			description?: string;
 			title?: string;
+			contextInfo?: EvolutionContextInfo;
 		};
 		imageMessage?: EvolutionImageMessage;
 		videoMessage?: EvolutionVideoMessage;
@@ -141,6 +201,19 @@ export interface EvolutionMessage {
 		locationMessage?: EvolutionLocationMessage;
 		contactMessage?: EvolutionContactMessage;
 		contactsArrayMessage?: EvolutionContactsArrayMessage;
+		pollCreationMessage?: EvolutionPollCreationMessage;
+		pollCreationMessageV3?: EvolutionPollCreationMessage;
+		pollUpdateMessage?: EvolutionPollUpdateMessage;
+		listResponseMessage?: EvolutionListResponseMessage;
+		buttonsResponseMessage?: EvolutionButtonsResponseMessage;
+		templateButtonReplyMessage?: EvolutionTemplateButtonReplyMessage;
+		reactionMessage?: EvolutionReactionMessage;
+		protocolMessage?: EvolutionProtocolMessage;
+		editedMessage?: {
+			message?: {
+				protocolMessage?: EvolutionProtocolMessage;
+			};
+		};
 	};
 }
 
@@ -160,6 +233,18 @@ export interface EvolutionConnectionUpdateData {
 	statusReason?: number;
 }
 
+/**
+ * QRCODE_UPDATED webhook data - a new pairing QR code, sent every time the previous one expires
+ */
+export interface EvolutionQrCodeUpdateData {
+	qrcode: {
+		instance?: string;
+		pairingCode?: string | null;
+		code?: string;
+		base64?: string;
+	};
+}
+
 /**
  * Message status values from Evolution API
  * Maps to WhatsApp message acknowledgment states
@@ -186,6 +271,20 @@ export interface EvolutionMessagesUpdateData {
 	messageId?: string;      // Alternative field name for message ID
 }
 
+/**
+ * CALL webhook data - one event per call state change
+ */
+export interface EvolutionCallData {
+	id: string;              // Call ID, shared by all events of the same call
+	from: string;            // Caller JID
+	chatId?: string;
+	date?: string;
+	isVideo?: boolean;
+	isGroup?: boolean;
+	status: "offer" | "ringing" | "timeout" | "reject" | "accept" | "terminate";
+	offline?: boolean;
+}
+
 /**
  * Union type for all webhook data types
  */
@@ -193,6 +292,8 @@ export type EvolutionWebhookData =
 	| EvolutionMessagesUpsertData
 	| EvolutionConnectionUpdateData
 	| EvolutionMessagesUpdateData
+	| EvolutionCallData
+	| EvolutionQrCodeUpdateData
 	| Record<string, unknown>;
 
 /**
@@ -222,6 +323,13 @@ export function isConnectionUpdateData(data: EvolutionWebhookData): data is Evol
 	return 'state' in data;
 }
 
+/**
+ * Type guard for QRCODE_UPDATED data
+ */
+export function isQrCodeUpdateData(data: EvolutionWebhookData): data is EvolutionQrCodeUpdateData {
+	return 'qrcode' in data && typeof data.qrcode === 'object' && data.qrcode !== null;
+}
+
 /**
  * Type guard for MESSAGES_UPDATE data (delivery/read receipts)
  */
@@ -230,10 +338,19 @@ export function isMessagesUpdateData(data: EvolutionWebhookData): data is Evolut
 }
 
 /**
- * Allowed webhook event types for processing
+ * Type guard for CALL data
+ */
+export function isCallData(data: EvolutionWebhookData): data is EvolutionCallData {
+	return 'id' in data && 'from' in data && 'status' in data;
+}
+
+/**
+ * Webhook event types the adapter subscribes to on each instance and processes; others are not queued
  */
 export const ALLOWED_EVOLUTION_EVENTS: EvolutionWebhookEvent[] = [
 	"MESSAGES_UPSERT",
 	"CONNECTION_UPDATE",
+	"QRCODE_UPDATED",
 	"MESSAGES_UPDATE",
+	"CALL",
 ];
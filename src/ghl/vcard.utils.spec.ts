@@ -0,0 +1,45 @@
+import { formatSharedContact, parseVCard } from "./vcard.utils";
+
+describe("vcard.utils", () => {
+	describe("parseVCard", () => {
+		it("should parse a WhatsApp vCard", () => {
+			const vcard = [
+				"BEGIN:VCARD",
+				"VERSION:3.0",
+				"N:Doe;John;;;",
+				"FN:John Doe",
+				"ORG:Acme\\, Inc.;Sales",
+				"item1.TEL;type=CELL;waid=5511999999999:+55 11 99999-9999",
+				"item1.X-ABLabel:Mobile",
+				"EMAIL;type=INTERNET:john@example.com",
+				"END:VCARD",
+			].join("\n");
+
+			expect(parseVCard(vcard)).toEqual({
+				name: "John Doe",
+				phones: ["+5511999999999"],
+				emails: ["john@example.com"],
+				organization: "Acme, Inc. - Sales",
+			});
+		});
+
+		it("should fall back to the formatted number and the structured name", () => {
+			const result = parseVCard("BEGIN:VCARD\r\nN:Smith;Jane\r\nTEL:+1 (555) 123-4567\r\nTEL:+44 20 7946 0958\r\nEND:VCARD");
+
+			expect(result.name).toBe("Jane Smith");
+			expect(result.phones).toEqual(["+15551234567", "+442079460958"]);
+		});
+
+		it("should return empty fields for missing input", () => {
+			expect(parseVCard(undefined)).toEqual({phones: [], emails: []});
+		});
+	});
+
+	describe("formatSharedContact", () => {
+		it("should list the contact details", () => {
+			const card = {name: "John", phones: ["+5511999999999"], emails: ["john@example.com"], organization: "Acme"};
+
+			expect(formatSharedContact("Johnny", card)).toBe("👤 Johnny\n📞 +5511999999999\n✉️ john@example.com\n🏢 Acme");
+		});
+	});
+});
@@ -0,0 +1,86 @@
+/**
+ * vCard parsing for contacts shared over WhatsApp
+ */
+
+export interface ParsedVCard {
+	name?: string;
+	phones: string[];
+	emails: string[];
+	organization?: string;
+}
+
+/**
+ * Parses the fields of a vCard (2.1/3.0/4.0) that matter for a contact
+ * Phones prefer WhatsApp's waid parameter (digits of the WhatsApp number) over the formatted value
+ *
+ * @example
+ * parseVCard("BEGIN:VCARD\nFN:John\nTEL;type=CELL;waid=5511999999999:+55 11 99999-9999\nEND:VCARD")
+ * // { name: "John", phones: ["+5511999999999"], emails: [], organization: undefined }
+ */
+export function parseVCard(vcard: string | null | undefined): ParsedVCard {
+	const result: ParsedVCard = {phones: [], emails: []};
+	if (!vcard) {
+		return result;
+	}
+
+	// Unfold continuation lines (lines starting with whitespace belong to the previous one)
+	const lines = vcard.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+	let structuredName: string | undefined;
+
+	for (const line of lines) {
+		const separator = line.indexOf(":");
+		if (separator <= 0) {
+			continue;
+		}
+		const [property, ...params] = line.slice(0, separator).split(";");
+		// Drop group prefixes such as "item1.TEL"
+		const name = property.split(".").pop()!.toUpperCase();
+		const value = line.slice(separator + 1).trim();
+
+		switch (name) {
+			case "FN":
+				result.name = unescapeValue(value) || result.name;
+				break;
+			case "N":
+				structuredName = value.split(";").map(unescapeValue).filter(Boolean).reverse().join(" ");
+				break;
+			case "TEL": {
+				const waid = params.map(param => /^waid=(\d+)$/i.exec(param)?.[1]).find(Boolean);
+				const digits = waid || value.replace(/[^\d]/g, "");
+				if (digits && !result.phones.includes(`+${digits}`)) {
+					result.phones.push(`+${digits}`);
+				}
+				break;
+			}
+			case "EMAIL": {
+				const email = unescapeValue(value);
+				if (email && !result.emails.includes(email)) {
+					result.emails.push(email);
+				}
+				break;
+			}
+			case "ORG":
+				result.organization = value.split(";").map(unescapeValue).filter(Boolean).join(" - ") || undefined;
+				break;
+		}
+	}
+
+	result.name = result.name || structuredName || undefined;
+	return result;
+}
+
+/**
+ * Multi-line summary of a shared contact for the GHL conversation
+ */
+export function formatSharedContact(displayName: string | undefined, card: ParsedVCard): string {
+	return [
+		`👤 ${displayName || card.name || "Unknown contact"}`,
+		...card.phones.map(phone => `📞 ${phone}`),
+		...card.emails.map(email => `✉️ ${email}`),
+		card.organization && `🏢 ${card.organization}`,
+	].filter(Boolean).join("\n");
+}
+
+function unescapeValue(value: string): string {
+	return value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1").trim();
+}
@@ -7,12 +7,26 @@ import { ValidationExceptionFilter } from "./filters/validation-exception.filter
 declare global {
 	namespace PrismaJson {
 		// noinspection JSUnusedGlobalSymbols
-		type InstanceSettings = Record<string, unknown>;
+		type InstanceSettings = {
+			webhookToken?: string;
+			// Latest pairing QR code while the instance is being linked, cleared once connected
+			pairing?: InstancePairing | null;
+			// GHL contact that receives disconnect alerts (NOTIFY_CHANNELS=ghl)
+			alertContactId?: string;
+			[key: string]: unknown;
+		};
+		type InstancePairing = {
+			qrCode: string | null; // data:image/png;base64 URL
+			pairingCode: string | null;
+			updatedAt: string;
+		};
+		// noinspection JSUnusedGlobalSymbols
+		type WebhookJobPayload = Record<string, unknown>;
 	}
 }
 
 async function bootstrap() {
-	const app = await NestFactory.create(AppModule, {});
+	const app = await NestFactory.create(AppModule, {rawBody: true});
 	app.useGlobalFilters(new ValidationExceptionFilter());
 	app.useGlobalPipes(new ValidationPipe({whitelist: true, transform: true, forbidNonWhitelisted: true}));
 	app.use(helmet());
@@ -0,0 +1,49 @@
+import { mediaTypeForMimeType, sniffMimeType } from "./media-type.utils";
+import { extensionOf, mimeTypeForExtension } from "./mime.utils";
+
+describe("media type detection", () => {
+	describe("mediaTypeForMimeType", () => {
+		it("should map mime type families to WhatsApp media types", () => {
+			expect(mediaTypeForMimeType("image/jpeg")).toBe("image");
+			expect(mediaTypeForMimeType("video/mp4")).toBe("video");
+			expect(mediaTypeForMimeType("audio/ogg; codecs=opus")).toBe("audio");
+			expect(mediaTypeForMimeType("application/pdf")).toBe("document");
+		});
+	});
+
+	describe("extension detection", () => {
+		it("should detect image, video and audio from URL extensions", () => {
+			const expected: Record<string, string> = {
+				jpg: "image", jpeg: "image", png: "image", gif: "image", webp: "image",
+				mp4: "video", mov: "video", avi: "video", mkv: "video",
+				mp3: "audio", ogg: "audio", wav: "audio", aac: "audio", m4a: "audio",
+			};
+
+			for (const [ext, mediaType] of Object.entries(expected)) {
+				const extension = extensionOf(`https://example.com/file.${ext}?alt=media`)!;
+				expect(mediaTypeForMimeType(mimeTypeForExtension(extension)!)).toBe(mediaType);
+			}
+		});
+
+		it("should not know unknown extensions", () => {
+			expect(mimeTypeForExtension(extensionOf("https://example.com/file.xyz")!)).toBeUndefined();
+			expect(extensionOf("https://example.com/download")).toBeUndefined();
+		});
+	});
+
+	describe("sniffMimeType", () => {
+		it("should detect common signatures", () => {
+			expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+			expect(sniffMimeType(Buffer.from("\x89PNG\r\n\x1a\n0000", "latin1"))).toBe("image/png");
+			expect(sniffMimeType(Buffer.from("RIFF0000WEBPVP8 ", "latin1"))).toBe("image/webp");
+			expect(sniffMimeType(Buffer.from("0000ftypisom", "latin1"))).toBe("video/mp4");
+			expect(sniffMimeType(Buffer.from("0000ftypM4A ", "latin1"))).toBe("audio/mp4");
+			expect(sniffMimeType(Buffer.from("OggS\x00\x02", "latin1"))).toBe("audio/ogg");
+			expect(sniffMimeType(Buffer.from("%PDF-1.7", "latin1"))).toBe("application/pdf");
+		});
+
+		it("should return undefined for unknown content", () => {
+			expect(sniffMimeType(Buffer.from("hello world", "latin1"))).toBeUndefined();
+		});
+	});
+});
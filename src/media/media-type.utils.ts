@@ -0,0 +1,70 @@
+import type { EvolutionMediaOptions } from "../evolution/evolution-api.client";
+import { baseMimeType } from "./mime.utils";
+
+export type MediaType = EvolutionMediaOptions["mediatype"];
+
+/**
+ * WhatsApp media category for a mime type; anything that is not image, video or audio is sent as a document
+ */
+export function mediaTypeForMimeType(mimeType: string): MediaType {
+	const base = baseMimeType(mimeType);
+	if (base.startsWith("image/")) {
+		return "image";
+	}
+	if (base.startsWith("video/")) {
+		return "video";
+	}
+	if (base.startsWith("audio/")) {
+		return "audio";
+	}
+	return "document";
+}
+
+/**
+ * Detects the mime type from the first bytes of a file, undefined if the signature is unknown
+ */
+export function sniffMimeType(header: Buffer): string | undefined {
+	const ascii = (start: number, end: number) => header.subarray(start, end).toString("latin1");
+
+	if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+		return "image/jpeg";
+	}
+	if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") {
+		return "image/png";
+	}
+	if (ascii(0, 4) === "GIF8") {
+		return "image/gif";
+	}
+	if (ascii(0, 4) === "RIFF") {
+		const format = ascii(8, 12);
+		if (format === "WEBP") return "image/webp";
+		if (format === "WAVE") return "audio/wav";
+		if (format === "AVI ") return "video/x-msvideo";
+	}
+	if (ascii(4, 8) === "ftyp") {
+		const brand = ascii(8, 12);
+		if (brand.startsWith("M4A")) return "audio/mp4";
+		if (brand === "qt  ") return "video/quicktime";
+		if (brand.startsWith("3g")) return "video/3gpp";
+		return "video/mp4";
+	}
+	if (ascii(0, 4) === "OggS") {
+		return "audio/ogg";
+	}
+	if (ascii(0, 3) === "ID3" || (header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0)) {
+		return "audio/mpeg";
+	}
+	if (ascii(0, 5) === "#!AMR") {
+		return "audio/amr";
+	}
+	if (header.length >= 4 && header.readUInt32BE(0) === 0x1a45dfa3) {
+		return "video/webm";
+	}
+	if (ascii(0, 5) === "%PDF-") {
+		return "application/pdf";
+	}
+	if (ascii(0, 4) === "PK\x03\x04") {
+		return "application/zip";
+	}
+	return undefined;
+}
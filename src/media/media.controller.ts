@@ -0,0 +1,31 @@
+import { Controller, Get, Param, Query, Res, NotFoundException, Logger } from "@nestjs/common";
+import { Response } from "express";
+import { MediaService } from "./media.service";
+
+@Controller("media")
+export class MediaController {
+	private readonly logger = new Logger(MediaController.name);
+
+	constructor(private readonly mediaService: MediaService) {}
+
+	@Get(":key")
+	async getMedia(@Param("key") key: string, @Query("sig") signature: string, @Res() res: Response): Promise<void> {
+		const media = await this.mediaService.getSignedMedia(key, signature);
+		if (!media) {
+			throw new NotFoundException("Media not found");
+		}
+
+		res.setHeader("Content-Type", media.contentType);
+		if (media.contentLength !== undefined) {
+			res.setHeader("Content-Length", media.contentLength);
+		}
+		// Keys never change content, so clients may cache them for good
+		res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+
+		media.body.on("error", (error) => {
+			this.logger.error(`Failed to stream media ${key}: ${error.message}`);
+			res.destroy(error);
+		});
+		media.body.pipe(res);
+	}
+}
@@ -0,0 +1,42 @@
+import { Module } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { MediaController } from "./media.controller";
+import { MediaService } from "./media.service";
+import { MEDIA_STORAGE, MediaStorage } from "./storage/media-storage";
+import { LocalMediaStorage } from "./storage/local-media.storage";
+import { S3MediaStorage } from "./storage/s3-media.storage";
+
+@Module({
+	providers: [
+		MediaService,
+		{
+			provide: MEDIA_STORAGE,
+			inject: [ConfigService],
+			useFactory: (configService: ConfigService): MediaStorage => {
+				const driver = configService.get<string>("MEDIA_STORAGE") || "local";
+				if (driver === "s3") {
+					const bucket = configService.get<string>("MEDIA_S3_BUCKET");
+					if (!bucket) {
+						throw new Error("MEDIA_S3_BUCKET is required when MEDIA_STORAGE=s3");
+					}
+					return new S3MediaStorage({
+						bucket,
+						region: configService.get<string>("MEDIA_S3_REGION") || "us-east-1",
+						prefix: configService.get<string>("MEDIA_S3_PREFIX") || "whatsapp-media",
+						endpoint: configService.get<string>("MEDIA_S3_ENDPOINT"),
+						forcePathStyle: configService.get<string>("MEDIA_S3_FORCE_PATH_STYLE") === "true",
+						accessKeyId: configService.get<string>("MEDIA_S3_ACCESS_KEY_ID"),
+						secretAccessKey: configService.get<string>("MEDIA_S3_SECRET_ACCESS_KEY"),
+					});
+				}
+				if (driver !== "local") {
+					throw new Error(`Unknown MEDIA_STORAGE "${driver}", expected "local" or "s3"`);
+				}
+				return new LocalMediaStorage(configService.get<string>("MEDIA_LOCAL_DIR") || "./storage/media");
+			},
+		},
+	],
+	controllers: [MediaController],
+	exports: [MediaService],
+})
+export class MediaModule {}
@@ -0,0 +1,158 @@
+import { Inject, Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import axios from "axios";
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Instance } from "@prisma/client";
+import { EvolutionApiClient } from "../evolution/evolution-api.client";
+import { MEDIA_KEY_PATTERN, MEDIA_STORAGE, MediaStorage, StoredMedia } from "./storage/media-storage";
+import { baseMimeType, extensionForMimeType, extensionOf, mimeTypeForExtension } from "./mime.utils";
+import { MediaType, mediaTypeForMimeType, sniffMimeType } from "./media-type.utils";
+
+export interface RehostedMedia {
+	url: string;
+	fileName?: string;
+	type: string;
+}
+
+export interface DetectedMedia {
+	mediatype: MediaType;
+	mimetype: string;
+}
+
+const GENERIC_MIME_TYPES = new Set(["application/octet-stream", "binary/octet-stream", "application/unknown"]);
+const PROBE_TIMEOUT_MS = 10000;
+const SNIFF_BYTES = 64;
+
+/**
+ * Re-hosts WhatsApp media under stable URLs GHL can open
+ * WhatsApp CDN links are encrypted and expire, so files are downloaded through Evolution and kept in MediaStorage
+ */
+@Injectable()
+export class MediaService implements OnModuleInit {
+	private readonly logger = new Logger(MediaService.name);
+
+	constructor(
+		@Inject(MEDIA_STORAGE) private readonly storage: MediaStorage,
+		private readonly configService: ConfigService,
+	) {}
+
+	onModuleInit() {
+		if (!this.configService.get<string>("MEDIA_SIGNING_SECRET")) {
+			this.logger.warn("MEDIA_SIGNING_SECRET is not set, inbound media will be forwarded without attachments");
+		}
+	}
+
+	/**
+	 * Downloads the media of a received message and stores it, returning a signed URL for GHL
+	 */
+	async rehostMessageMedia(
+		instance: Instance,
+		messageId: string,
+		hint: { mimetype?: string; fileName?: string },
+	): Promise<RehostedMedia> {
+		// Without a signing secret the file could not be linked, so don't download or store it
+		if (!this.configService.get<string>("MEDIA_SIGNING_SECRET")) {
+			throw new Error("MEDIA_SIGNING_SECRET is not configured");
+		}
+		const client = new EvolutionApiClient(instance.evolutionApiUrl, instance.evolutionApiKey);
+		const media = await client.getBase64FromMediaMessage(instance.instanceName, messageId);
+		if (!media?.base64) {
+			throw new Error(`Evolution returned no media for message ${messageId}`);
+		}
+
+		const contentType = baseMimeType(media.mimetype || hint.mimetype || "application/octet-stream");
+		const fileName = hint.fileName || media.fileName;
+		const extension = extensionForMimeType(contentType) || (fileName && extensionOf(fileName)) || "bin";
+		const key = `${instance.id}-${messageId.replace(/[^A-Za-z0-9_-]/g, "")}.${extension}`;
+
+		await this.storage.put(key, Buffer.from(media.base64, "base64"), contentType);
+		this.logger.log(`Stored media of message ${messageId} as ${key}`);
+
+		return {url: this.getSignedUrl(key), fileName, type: contentType};
+	}
+
+	/**
+	 * Works out how an outbound attachment should be sent to WhatsApp
+	 * Tries the file extension first, then the Content-Type of a HEAD request, then the file's magic bytes
+	 */
+	async detectOutboundMedia(url: string, fileName?: string): Promise<DetectedMedia> {
+		const extension = extensionOf(fileName || "") || extensionOf(url);
+		const mimeType = (extension && mimeTypeForExtension(extension)) ||
+			await this.probeContentType(url) ||
+			await this.sniffRemoteMimeType(url);
+
+		if (!mimeType) {
+			this.logger.debug(`Could not detect media type of ${url}, sending as document`);
+			return {mediatype: "document", mimetype: "application/octet-stream"};
+		}
+		return {mediatype: mediaTypeForMimeType(mimeType), mimetype: mimeType};
+	}
+
+	private async probeContentType(url: string): Promise<string | undefined> {
+		try {
+			const response = await axios.head(url, {timeout: PROBE_TIMEOUT_MS});
+			const contentType = response.headers["content-type"];
+			if (typeof contentType === "string" && !GENERIC_MIME_TYPES.has(baseMimeType(contentType))) {
+				return baseMimeType(contentType);
+			}
+		} catch (error) {
+			this.logger.debug(`HEAD request for ${url} failed: ${error.message}`);
+		}
+		return undefined;
+	}
+
+	private async sniffRemoteMimeType(url: string): Promise<string | undefined> {
+		try {
+			const response = await axios.get<ArrayBuffer>(url, {
+				headers: {Range: `bytes=0-${SNIFF_BYTES - 1}`},
+				responseType: "arraybuffer",
+				timeout: PROBE_TIMEOUT_MS,
+				// Servers ignoring Range send the whole file; cap what is read
+				maxContentLength: 25 * 1024 * 1024,
+			});
+			return sniffMimeType(Buffer.from(response.data).subarray(0, SNIFF_BYTES));
+		} catch (error) {
+			this.logger.debug(`Reading the first bytes of ${url} failed: ${error.message}`);
+		}
+		return undefined;
+	}
+
+	/**
+	 * Deletes re-hosted files older than the given number of days; their links in GHL stop working
+	 */
+	async cleanupOldMedia(olderThanDays: number): Promise<number> {
+		const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+		const deleted = await this.storage.deleteOlderThan(cutoff);
+		this.logger.log(`Deleted ${deleted} media files older than ${olderThanDays} days`);
+		return deleted;
+	}
+
+	getSignedUrl(key: string): string {
+		const baseUrl = this.configService.get<string>("MEDIA_BASE_URL") ||
+			`${this.configService.get<string>("APP_URL")}/media`;
+		return `${baseUrl}/${key}?sig=${this.sign(key)}`;
+	}
+
+	/**
+	 * Returns the stored file if the key is well-formed and the signature matches, null otherwise
+	 */
+	async getSignedMedia(key: string, signature: string | undefined): Promise<StoredMedia | null> {
+		if (!MEDIA_KEY_PATTERN.test(key) || !signature) {
+			return null;
+		}
+		const expected = Buffer.from(this.sign(key));
+		const provided = Buffer.from(signature);
+		if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+			return null;
+		}
+		return this.storage.get(key);
+	}
+
+	private sign(key: string): string {
+		const secret = this.configService.get<string>("MEDIA_SIGNING_SECRET");
+		if (!secret) {
+			throw new Error("MEDIA_SIGNING_SECRET is not configured");
+		}
+		return createHmac("sha256", secret).update(key).digest("base64url");
+	}
+}
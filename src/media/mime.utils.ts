@@ -0,0 +1,63 @@
+/**
+ * Mime type <-> file extension mapping for media that WhatsApp and GHL exchange
+ */
+const MIME_EXTENSIONS: Record<string, string> = {
+	"image/jpeg": "jpg",
+	"image/png": "png",
+	"image/gif": "gif",
+	"image/webp": "webp",
+	"video/mp4": "mp4",
+	"video/3gpp": "3gp",
+	"video/quicktime": "mov",
+	"video/x-msvideo": "avi",
+	"video/x-matroska": "mkv",
+	"video/webm": "webm",
+	"audio/ogg": "ogg",
+	"audio/mpeg": "mp3",
+	"audio/mp4": "m4a",
+	"audio/aac": "aac",
+	"audio/amr": "amr",
+	"audio/wav": "wav",
+	"audio/webm": "weba",
+	"application/pdf": "pdf",
+	"application/msword": "doc",
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+	"application/vnd.ms-excel": "xls",
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+	"application/vnd.ms-powerpoint": "ppt",
+	"application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+	"application/zip": "zip",
+	"text/plain": "txt",
+	"text/csv": "csv",
+};
+
+const EXTENSION_MIMES: Record<string, string> = {
+	...Object.fromEntries(Object.entries(MIME_EXTENSIONS).map(([mime, ext]) => [ext, mime])),
+	jpeg: "image/jpeg",
+	oga: "audio/ogg",
+	opus: "audio/ogg",
+};
+
+/**
+ * Strips parameters, e.g. "audio/ogg; codecs=opus" -> "audio/ogg"
+ */
+export function baseMimeType(mimeType: string): string {
+	return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+export function extensionForMimeType(mimeType: string | undefined): string | undefined {
+	return mimeType ? MIME_EXTENSIONS[baseMimeType(mimeType)] : undefined;
+}
+
+export function mimeTypeForExtension(extension: string): string | undefined {
+	return EXTENSION_MIMES[extension.replace(/^\./, "").toLowerCase()];
+}
+
+/**
+ * Extension of a file name or URL path, without the dot
+ */
+export function extensionOf(fileNameOrUrl: string): string | undefined {
+	const path = fileNameOrUrl.split(/[?#]/)[0];
+	const match = /\.([a-z0-9]{1,8})$/i.exec(path);
+	return match ? match[1].toLowerCase() : undefined;
+}
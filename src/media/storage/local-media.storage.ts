@@ -0,0 +1,66 @@
+import { createReadStream } from "fs";
+import { mkdir, readdir, stat, unlink, writeFile } from "fs/promises";
+import { join, resolve } from "path";
+import { MEDIA_KEY_PATTERN, MediaStorage, StoredMedia } from "./media-storage";
+import { extensionOf, mimeTypeForExtension } from "../mime.utils";
+
+/**
+ * Stores media files in a directory on local disk
+ * The content type is derived from the key's extension when serving
+ */
+export class LocalMediaStorage implements MediaStorage {
+	private readonly directory: string;
+
+	constructor(directory: string) {
+		this.directory = resolve(directory);
+	}
+
+	async put(key: string, data: Buffer): Promise<void> {
+		await mkdir(this.directory, {recursive: true});
+		await writeFile(join(this.directory, key), data);
+	}
+
+	async get(key: string): Promise<StoredMedia | null> {
+		const path = join(this.directory, key);
+		try {
+			const stats = await stat(path);
+			const extension = extensionOf(key);
+			return {
+				body: createReadStream(path),
+				contentType: (extension && mimeTypeForExtension(extension)) || "application/octet-stream",
+				contentLength: stats.size,
+			};
+		} catch (error) {
+			if (error.code === "ENOENT") {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	async deleteOlderThan(cutoff: Date): Promise<number> {
+		let names: string[];
+		try {
+			names = await readdir(this.directory);
+		} catch (error) {
+			if (error.code === "ENOENT") {
+				return 0;
+			}
+			throw error;
+		}
+
+		let deleted = 0;
+		for (const name of names) {
+			if (!MEDIA_KEY_PATTERN.test(name)) {
+				continue;
+			}
+			const path = join(this.directory, name);
+			const stats = await stat(path);
+			if (stats.isFile() && stats.mtime < cutoff) {
+				await unlink(path);
+				deleted++;
+			}
+		}
+		return deleted;
+	}
+}
@@ -0,0 +1,28 @@
+import { Readable } from "stream";
+
+export const MEDIA_STORAGE = Symbol("MEDIA_STORAGE");
+
+// Keys of re-hosted files: <instanceId>-<messageId>.<extension>
+export const MEDIA_KEY_PATTERN = /^[A-Za-z0-9_-]+\.[a-z0-9]{1,8}$/;
+
+export interface StoredMedia {
+	body: Readable;
+	contentType: string;
+	contentLength?: number;
+}
+
+/**
+ * Backend the re-hosted media files are written to
+ */
+export interface MediaStorage {
+	put(key: string, data: Buffer, contentType: string): Promise<void>;
+	/**
+	 * Returns null when the key does not exist
+	 */
+	get(key: string): Promise<StoredMedia | null>;
+	/**
+	 * Deletes media files stored before the cutoff, returning how many were deleted
+	 * Only keys matching MEDIA_KEY_PATTERN are touched, so files the adapter did not write are left alone
+	 */
+	deleteOlderThan(cutoff: Date): Promise<number>;
+}
@@ -0,0 +1,93 @@
+import {
+	DeleteObjectsCommand, GetObjectCommand, ListObjectsV2Command, NoSuchKey, PutObjectCommand, S3Client,
+} from "@aws-sdk/client-s3";
+import { Readable } from "stream";
+import { MEDIA_KEY_PATTERN, MediaStorage, StoredMedia } from "./media-storage";
+
+export interface S3MediaStorageOptions {
+	bucket: string;
+	region: string;
+	// Folder the files are kept under; the retention sweep only lists this folder
+	prefix: string;
+	endpoint?: string;
+	forcePathStyle?: boolean;
+	accessKeyId?: string;
+	secretAccessKey?: string;
+}
+
+/**
+ * Stores media files in an S3 bucket or an S3-compatible store (MinIO, R2, ...)
+ * The bucket can stay private; files are served through the media controller
+ */
+export class S3MediaStorage implements MediaStorage {
+	private readonly client: S3Client;
+
+	constructor(private readonly options: S3MediaStorageOptions) {
+		this.client = new S3Client({
+			region: options.region,
+			endpoint: options.endpoint,
+			forcePathStyle: options.forcePathStyle,
+			credentials: options.accessKeyId && options.secretAccessKey
+				? {accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey}
+				: undefined,
+		});
+	}
+
+	async put(key: string, data: Buffer, contentType: string): Promise<void> {
+		await this.client.send(new PutObjectCommand({
+			Bucket: this.options.bucket,
+			Key: this.objectKey(key),
+			Body: data,
+			ContentType: contentType,
+		}));
+	}
+
+	async get(key: string): Promise<StoredMedia | null> {
+		try {
+			const object = await this.client.send(new GetObjectCommand({
+				Bucket: this.options.bucket,
+				Key: this.objectKey(key),
+			}));
+			return {
+				body: object.Body as Readable,
+				contentType: object.ContentType || "application/octet-stream",
+				contentLength: object.ContentLength,
+			};
+		} catch (error) {
+			if (error instanceof NoSuchKey) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	async deleteOlderThan(cutoff: Date): Promise<number> {
+		let deleted = 0;
+		let continuationToken: string | undefined;
+		do {
+			// A listed page holds at most 1000 keys, the most DeleteObjects accepts
+			const page = await this.client.send(new ListObjectsV2Command({
+				Bucket: this.options.bucket,
+				Prefix: this.objectKey(""),
+				ContinuationToken: continuationToken,
+			}));
+			const expired = (page.Contents || [])
+				.filter(object => object.Key && object.LastModified && object.LastModified < cutoff &&
+					MEDIA_KEY_PATTERN.test(object.Key.substring(this.objectKey("").length)))
+				.map(object => ({ Key: object.Key! }));
+			if (expired.length > 0) {
+				await this.client.send(new DeleteObjectsCommand({
+					Bucket: this.options.bucket,
+					Delete: { Objects: expired, Quiet: true },
+				}));
+				deleted += expired.length;
+			}
+			continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+		} while (continuationToken);
+		return deleted;
+	}
+
+	private objectKey(key: string): string {
+		return `${this.options.prefix.replace(/\/$/, "")}/${key}`;
+	}
+}
@@ -0,0 +1,38 @@
+import { createTransport, Transporter } from "nodemailer";
+import { InstanceAlert, NotificationChannel } from "../notification-channel";
+
+export interface EmailChannelOptions {
+	host: string;
+	port: number;
+	secure: boolean;
+	user?: string;
+	pass?: string;
+	from: string;
+	to: string[];
+}
+
+/**
+ * Sends alerts as plain text email over SMTP
+ */
+export class EmailNotificationChannel implements NotificationChannel {
+	readonly name = "email";
+	private readonly transporter: Transporter;
+
+	constructor(private readonly options: EmailChannelOptions) {
+		this.transporter = createTransport({
+			host: options.host,
+			port: options.port,
+			secure: options.secure,
+			auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+		});
+	}
+
+	async send(alert: InstanceAlert): Promise<void> {
+		await this.transporter.sendMail({
+			from: this.options.from,
+			to: this.options.to,
+			subject: alert.title,
+			text: alert.message,
+		});
+	}
+}
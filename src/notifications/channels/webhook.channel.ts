@@ -0,0 +1,43 @@
+import axios from "axios";
+import { createHmac } from "crypto";
+import { InstanceAlert, NotificationChannel } from "../notification-channel";
+
+/**
+ * POSTs alerts as JSON to an outgoing webhook (Slack/Teams relays, PagerDuty, custom endpoints)
+ * With a secret, the body is signed with HMAC-SHA256 in the x-signature header
+ */
+export class WebhookNotificationChannel implements NotificationChannel {
+	readonly name = "webhook";
+
+	constructor(
+		private readonly url: string,
+		private readonly secret?: string,
+	) {}
+
+	async send(alert: InstanceAlert): Promise<void> {
+		const body = JSON.stringify({
+			event: `instance.${alert.kind}`,
+			instance: {
+				id: alert.instance.id.toString(),
+				instanceName: alert.instance.instanceName,
+				name: alert.instance.name,
+				locationId: alert.instance.userId,
+			},
+			state: alert.state,
+			statusReason: alert.statusReason,
+			reason: alert.reason,
+			downSince: alert.downSince.toISOString(),
+			at: alert.at.toISOString(),
+			title: alert.title,
+			message: alert.message,
+		});
+
+		await axios.post(this.url, body, {
+			headers: {
+				"Content-Type": "application/json",
+				...(this.secret ? { "x-signature": createHmac("sha256", this.secret).update(body).digest("hex") } : {}),
+			},
+			timeout: 10000,
+		});
+	}
+}
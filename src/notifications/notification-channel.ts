@@ -0,0 +1,27 @@
+import type { Instance, InstanceState, User } from "@prisma/client";
+
+export type InstanceAlertKind = "disconnected" | "reconnected";
+
+/**
+ * Alert about an instance's WhatsApp connection, handed to every enabled channel
+ */
+export interface InstanceAlert {
+	kind: InstanceAlertKind;
+	instance: Instance & { user: User };
+	state: InstanceState;
+	statusReason: number | null;
+	reason: string | null;   // Human readable disconnect reason, when known
+	downSince: Date;         // When the connection dropped
+	at: Date;
+	title: string;
+	message: string;
+}
+
+/**
+ * Destination for instance alerts (GHL, email, webhook, ...)
+ */
+export interface NotificationChannel {
+	// Name used in NOTIFY_CHANNELS
+	readonly name: string;
+	send(alert: InstanceAlert): Promise<void>;
+}
@@ -0,0 +1,196 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import type { Instance, InstanceState, User } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { describeDisconnectReason } from "../ghl/instance-health.utils";
+import { InstanceAlert, InstanceAlertKind, NotificationChannel } from "./notification-channel";
+import { EmailNotificationChannel } from "./channels/email.channel";
+import { WebhookNotificationChannel } from "./channels/webhook.channel";
+
+const DEFAULT_DEBOUNCE_SECONDS = 120;
+const DEFAULT_COOLDOWN_MINUTES = 30;
+
+/**
+ * Alerts location admins when an instance loses (and regains) its WhatsApp connection
+ * A drop is only reported if the instance is still down after NOTIFY_DEBOUNCE_SECONDS, and at most once per
+ * NOTIFY_COOLDOWN_MINUTES, so flapping connections don't spam. State is kept in memory and resets on restart.
+ */
+@Injectable()
+export class NotificationsService implements OnModuleDestroy {
+	private readonly logger = new Logger(NotificationsService.name);
+	private readonly channels = new Map<string, NotificationChannel>();
+	private readonly enabledChannels: string[];
+	private readonly debounceMs: number;
+	private readonly cooldownMs: number;
+	// Drops waiting for the debounce to pass, by instance ID
+	private readonly pendingDrops = new Map<string, NodeJS.Timeout>();
+	// Instances reported as down, with the time the connection dropped
+	private readonly reportedDown = new Map<string, Date>();
+	private readonly lastDropAlertAt = new Map<string, number>();
+
+	constructor(
+		private readonly configService: ConfigService,
+		private readonly prisma: PrismaService,
+	) {
+		this.enabledChannels = (this.configService.get<string>("NOTIFY_CHANNELS") || "")
+			.split(",").map(channel => channel.trim().toLowerCase()).filter(Boolean);
+		this.debounceMs = (Number(this.configService.get("NOTIFY_DEBOUNCE_SECONDS")) || DEFAULT_DEBOUNCE_SECONDS) * 1000;
+		this.cooldownMs = (Number(this.configService.get("NOTIFY_COOLDOWN_MINUTES")) || DEFAULT_COOLDOWN_MINUTES) * 60 * 1000;
+
+		if (this.enabledChannels.includes("email")) {
+			const host = this.configService.get<string>("SMTP_HOST");
+			const to = this.configService.get<string>("NOTIFY_EMAIL_TO");
+			if (!host || !to) {
+				throw new Error("SMTP_HOST and NOTIFY_EMAIL_TO are required when NOTIFY_CHANNELS includes email");
+			}
+			this.registerChannel(new EmailNotificationChannel({
+				host,
+				port: Number(this.configService.get("SMTP_PORT")) || 587,
+				secure: this.configService.get<string>("SMTP_SECURE") === "true",
+				user: this.configService.get<string>("SMTP_USER"),
+				pass: this.configService.get<string>("SMTP_PASS"),
+				from: this.configService.get<string>("NOTIFY_EMAIL_FROM") || this.configService.get<string>("SMTP_USER") || to,
+				to: to.split(",").map(address => address.trim()).filter(Boolean),
+			}));
+		}
+
+		if (this.enabledChannels.includes("webhook")) {
+			const url = this.configService.get<string>("NOTIFY_WEBHOOK_URL");
+			if (!url) {
+				throw new Error("NOTIFY_WEBHOOK_URL is required when NOTIFY_CHANNELS includes webhook");
+			}
+			this.registerChannel(new WebhookNotificationChannel(url, this.configService.get<string>("NOTIFY_WEBHOOK_SECRET")));
+		}
+	}
+
+	/**
+	 * Adds a channel; it only receives alerts when listed in NOTIFY_CHANNELS
+	 */
+	registerChannel(channel: NotificationChannel): void {
+		this.channels.set(channel.name, channel);
+	}
+
+	get enabled(): boolean {
+		return this.enabledChannels.length > 0;
+	}
+
+	/**
+	 * Called on every connection state transition of an instance, with the instance as it was before the transition
+	 * A close only counts as a drop for a connected instance - not while a new device is being paired
+	 * (e.g. an expired QR code), where the instance was never connected
+	 */
+	async handleStateChange(instance: Instance & { user: User }, state: InstanceState, statusReason?: number | null): Promise<void> {
+		if (!this.enabled) {
+			return;
+		}
+		const key = instance.id.toString();
+
+		if (state === "close") {
+			if (this.pendingDrops.has(key) || this.reportedDown.has(key)) {
+				return;
+			}
+			if (instance.stateInstance !== "open" && instance.settings?.pairing) {
+				this.logger.debug(`Instance ${instance.instanceName} closed while pairing, no alert sent`);
+				return;
+			}
+			const downSince = new Date();
+			this.pendingDrops.set(key, setTimeout(() => {
+				this.pendingDrops.delete(key);
+				void this.confirmDrop(instance.id, downSince, statusReason ?? null);
+			}, this.debounceMs));
+			return;
+		}
+
+		if (state === "open") {
+			const pending = this.pendingDrops.get(key);
+			if (pending) {
+				clearTimeout(pending);
+				this.pendingDrops.delete(key);
+				this.logger.log(`Instance ${instance.instanceName} reconnected within the debounce window, no alert sent`);
+				return;
+			}
+			const downSince = this.reportedDown.get(key);
+			if (downSince) {
+				this.reportedDown.delete(key);
+				await this.dispatch(this.buildAlert("reconnected", instance, state, null, downSince));
+			}
+		}
+	}
+
+	onModuleDestroy() {
+		for (const timer of this.pendingDrops.values()) {
+			clearTimeout(timer);
+		}
+		this.pendingDrops.clear();
+	}
+
+	/**
+	 * Reports a drop once the debounce has passed, if the instance is still not connected
+	 */
+	private async confirmDrop(instanceId: bigint, downSince: Date, statusReason: number | null): Promise<void> {
+		const key = instanceId.toString();
+		try {
+			const instance = await this.prisma.getInstance(instanceId);
+			if (!instance || instance.stateInstance === "open") {
+				return;
+			}
+			const lastAlertAt = this.lastDropAlertAt.get(key);
+			if (lastAlertAt && Date.now() - lastAlertAt < this.cooldownMs) {
+				this.logger.log(`Instance ${instance.instanceName} dropped again within the cooldown, no alert sent`);
+				return;
+			}
+			this.reportedDown.set(key, downSince);
+			this.lastDropAlertAt.set(key, Date.now());
+			await this.dispatch(this.buildAlert("disconnected", instance, instance.stateInstance || "close", statusReason, downSince));
+		} catch (error) {
+			this.logger.error(`Failed to report disconnect of instance ${key}: ${error.message}`);
+		}
+	}
+
+	private buildAlert(
+		kind: InstanceAlertKind,
+		instance: Instance & { user: User },
+		state: InstanceState,
+		statusReason: number | null,
+		downSince: Date,
+	): InstanceAlert {
+		const label = instance.name && instance.name !== instance.instanceName
+			? `${instance.name} (${instance.instanceName})`
+			: instance.instanceName;
+		const reason = describeDisconnectReason(statusReason);
+		const at = new Date();
+
+		if (kind === "disconnected") {
+			return {
+				kind, instance, state, statusReason, reason, downSince, at,
+				title: `WhatsApp instance ${label} is disconnected`,
+				message: [
+					`WhatsApp instance ${label} lost its connection at ${downSince.toISOString()}.`,
+					reason ? `Reason: ${reason}.` : null,
+					"WhatsApp messages are not synced with GoHighLevel until it reconnects. Open the WhatsApp page of the location to reconnect or link the device again.",
+				].filter(Boolean).join("\n"),
+			};
+		}
+
+		const downMinutes = Math.max(1, Math.round((at.getTime() - downSince.getTime()) / 60000));
+		return {
+			kind, instance, state, statusReason, reason, downSince, at,
+			title: `WhatsApp instance ${label} is connected again`,
+			message: `WhatsApp instance ${label} reconnected at ${at.toISOString()} after about ${downMinutes} min.`,
+		};
+	}
+
+	private async dispatch(alert: InstanceAlert): Promise<void> {
+		const channels = this.enabledChannels
+			.map(name => this.channels.get(name))
+			.filter((channel): channel is NotificationChannel => !!channel);
+
+		const results = await Promise.allSettled(channels.map(channel => channel.send(alert)));
+		results.forEach((result, index) => {
+			if (result.status === "rejected") {
+				this.logger.error(`Failed to send ${alert.kind} alert via ${channels[index].name}: ${result.reason?.message || result.reason}`);
+			}
+		});
+		this.logger.log(`Sent ${alert.kind} alert for instance ${alert.instance.instanceName} via ${channels.map(channel => channel.name).join(", ") || "no channel"}`);
+	}
+}
@@ -75,6 +75,9 @@ export class GhlOauthController {
 					refreshToken: refresh_token,
 					tokenExpiresAt,
 					companyId: respCompanyId,
+					tokenRefreshError: null,
+					tokenRefreshFailedAt: null,
+					reauthRequired: false,
 				},
 				create: {
 					id: respLocationId,
@@ -266,6 +269,9 @@ export class GhlOauthController {
 							refreshToken: locationToken.refresh_token,
 							tokenExpiresAt: new Date(Date.now() + locationToken.expires_in * 1000),
 							companyId,
+							tokenRefreshError: null,
+							tokenRefreshFailedAt: null,
+							reauthRequired: false,
 						},
 						create: {
 							id: location._id,
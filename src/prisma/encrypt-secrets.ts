@@ -0,0 +1,33 @@
+import { NestFactory } from "@nestjs/core";
+import { Logger, Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { PrismaModule } from "./prisma.module";
+import { PrismaService } from "./prisma.service";
+
+@Module({
+	imports: [
+		ConfigModule.forRoot({isGlobal: true, envFilePath: ".env"}),
+		PrismaModule,
+	],
+})
+class EncryptSecretsModule {}
+
+/**
+ * One-off command: encrypts existing tokens and API keys, or re-wraps them after adding a new key to ENCRYPTION_KEYS
+ * Usage: npm run build && npm run db:encrypt-secrets
+ */
+async function run() {
+	const logger = new Logger("EncryptSecrets");
+	const app = await NestFactory.createApplicationContext(EncryptSecretsModule, {logger: ["error", "warn", "log"]});
+	try {
+		const {users, instances} = await app.get(PrismaService).encryptExistingSecrets();
+		logger.log(`Updated secrets for ${users} user(s) and ${instances} instance(s)`);
+	} finally {
+		await app.close();
+	}
+}
+
+run().catch((error) => {
+	console.error(error);
+	process.exit(1);
+});
@@ -0,0 +1,142 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const PREFIX = "enc:v1";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+interface EncryptionKey {
+	id: string;
+	key: Buffer;
+}
+
+interface EncryptedPart {
+	iv: Buffer;
+	tag: Buffer;
+	data: Buffer;
+}
+
+/**
+ * Envelope encryption for secret columns
+ * Each value is encrypted with its own random data key, which is wrapped by a master key from ENCRYPTION_KEYS.
+ * Stored format: enc:v1:<keyId>:<wrapped data key>:<encrypted value>
+ */
+export class FieldEncryption {
+	private readonly keys = new Map<string, Buffer>();
+	private readonly activeKey: EncryptionKey | null = null;
+
+	/**
+	 * @param keyConfig comma separated "id:base64key" pairs, the first one encrypts new values
+	 */
+	constructor(keyConfig?: string) {
+		const entries = (keyConfig || "").split(",").map((entry) => entry.trim()).filter(Boolean);
+		for (const entry of entries) {
+			const separator = entry.indexOf(":");
+			if (separator <= 0) {
+				throw new Error(`Invalid ENCRYPTION_KEYS entry "${entry}", expected "id:base64key"`);
+			}
+			const id = entry.slice(0, separator);
+			const key = Buffer.from(entry.slice(separator + 1), "base64");
+			if (key.length !== 32) {
+				throw new Error(`Encryption key "${id}" must be 32 bytes (base64 encoded)`);
+			}
+			if (this.keys.has(id)) {
+				throw new Error(`Duplicate encryption key id "${id}"`);
+			}
+			this.keys.set(id, key);
+			if (!this.activeKey) {
+				this.activeKey = {id, key};
+			}
+		}
+	}
+
+	get enabled(): boolean {
+		return this.activeKey !== null;
+	}
+
+	isEncrypted(value: string): boolean {
+		return value.startsWith(`${PREFIX}:`);
+	}
+
+	encrypt(plaintext: string): string {
+		if (!this.activeKey || this.isEncrypted(plaintext)) {
+			return plaintext;
+		}
+		const dataKey = randomBytes(32);
+		const value = this.seal(dataKey, Buffer.from(plaintext, "utf8"));
+		const wrappedKey = this.seal(this.activeKey.key, dataKey);
+		return [PREFIX, this.activeKey.id, this.pack(wrappedKey), this.pack(value)].join(":");
+	}
+
+	/**
+	 * Plain text values are returned unchanged so rows written before encryption stay readable
+	 */
+	decrypt(value: string): string {
+		if (!this.isEncrypted(value)) {
+			return value;
+		}
+		const {keyId, wrappedKey, value: encrypted} = this.parse(value);
+		const dataKey = this.open(this.getKey(keyId), wrappedKey);
+		return this.open(dataKey, encrypted).toString("utf8");
+	}
+
+	/**
+	 * Brings a stored value up to the active key
+	 * Plain text is encrypted; values under an older key only get their data key re-wrapped
+	 */
+	reencrypt(value: string): string {
+		if (!this.activeKey) {
+			return value;
+		}
+		if (!this.isEncrypted(value)) {
+			return this.encrypt(value);
+		}
+		const {keyId, wrappedKey, value: encrypted} = this.parse(value);
+		if (keyId === this.activeKey.id) {
+			return value;
+		}
+		const dataKey = this.open(this.getKey(keyId), wrappedKey);
+		const rewrapped = this.seal(this.activeKey.key, dataKey);
+		return [PREFIX, this.activeKey.id, this.pack(rewrapped), this.pack(encrypted)].join(":");
+	}
+
+	private getKey(keyId: string): Buffer {
+		const key = this.keys.get(keyId);
+		if (!key) {
+			throw new Error(`Encryption key "${keyId}" is not configured`);
+		}
+		return key;
+	}
+
+	private seal(key: Buffer, plaintext: Buffer): EncryptedPart {
+		const iv = randomBytes(IV_LENGTH);
+		const cipher = createCipheriv(ALGORITHM, key, iv);
+		const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+		return {iv, tag: cipher.getAuthTag(), data};
+	}
+
+	private open(key: Buffer, part: EncryptedPart): Buffer {
+		const decipher = createDecipheriv(ALGORITHM, key, part.iv);
+		decipher.setAuthTag(part.tag);
+		return Buffer.concat([decipher.update(part.data), decipher.final()]);
+	}
+
+	private pack(part: EncryptedPart): string {
+		return [part.iv, part.tag, part.data].map((buffer) => buffer.toString("base64url")).join(".");
+	}
+
+	private unpack(packed: string): EncryptedPart {
+		const [iv, tag, data] = packed.split(".").map((piece) => Buffer.from(piece, "base64url"));
+		if (!iv || !tag || !data) {
+			throw new Error("Malformed encrypted value");
+		}
+		return {iv, tag, data};
+	}
+
+	private parse(value: string): { keyId: string; wrappedKey: EncryptedPart; value: EncryptedPart } {
+		const parts = value.split(":");
+		if (parts.length !== 5) {
+			throw new Error("Malformed encrypted value");
+		}
+		return {keyId: parts[2], wrappedKey: this.unpack(parts[3]), value: this.unpack(parts[4])};
+	}
+}
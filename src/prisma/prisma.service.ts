@@ -5,19 +5,163 @@ import {
 	User,
 	Instance,
 	SentMessage,
+	SentMessageStatus,
+	InboundMessage,
+	ContactRoute,
+	WebhookJob,
+	WebhookJobStatus,
+	JobRun,
+	JobRunStatus,
+	ConnectionEvent,
 	Prisma,
 } from "@prisma/client";
+import { ConfigService } from "@nestjs/config";
 import { UserCreateData, UserUpdateData } from "../types";
+import { FieldEncryption } from "./field-encryption";
+
+/**
+ * Secret columns encrypted at rest, per model
+ */
+const ENCRYPTED_FIELDS: Record<string, string[]> = {
+	User: ["accessToken", "refreshToken"],
+	Instance: ["evolutionApiKey"],
+};
+
+/**
+ * Relation fields of each model and the model they point to, used to decrypt nested includes
+ */
+const RELATION_MODELS: Record<string, Record<string, string>> = Object.fromEntries(
+	Prisma.dmmf.datamodel.models.map((model) => [
+		model.name,
+		Object.fromEntries(model.fields.filter((field) => field.kind === "object").map((field) => [field.name, field.type])),
+	]),
+);
 
 @Injectable()
 export class PrismaService
 	extends PrismaClient
 	implements OnModuleInit {
 	private readonly logger = new Logger(PrismaService.name);
+	private readonly encryption: FieldEncryption;
+
+	constructor(configService: ConfigService) {
+		super();
+		this.encryption = new FieldEncryption(configService.get<string>("ENCRYPTION_KEYS"));
+		// Query middleware was removed in Prisma 6.14, so prisma and @prisma/client stay pinned below it
+		this.$use((params, next) => this.encryptionMiddleware(params, next));
+	}
+
 	async onModuleInit() {
+		if (!this.encryption.enabled) {
+			this.logger.warn("ENCRYPTION_KEYS is not set, tokens and API keys are stored in plain text");
+		}
 		await this.$connect();
 	}
 
+	/**
+	 * Encrypts secret fields in write payloads and decrypts them in model query results (including nested includes)
+	 * Raw queries are left untouched and see the stored ciphertext
+	 */
+	private async encryptionMiddleware(
+		params: Prisma.MiddlewareParams,
+		next: (params: Prisma.MiddlewareParams) => Promise<unknown>,
+	): Promise<unknown> {
+		const fields = params.model ? ENCRYPTED_FIELDS[params.model] : undefined;
+		if (fields && params.args) {
+			for (const key of ["data", "create", "update"]) {
+				if (params.args[key]) {
+					params.args[key] = this.encryptFields(params.args[key], fields);
+				}
+			}
+		}
+		const result = await next(params);
+		return params.model ? this.decryptFields(result, params.model) : result;
+	}
+
+	private encryptFields(
+		data: Record<string, unknown> | Record<string, unknown>[],
+		fields: string[],
+	): Record<string, unknown> | Record<string, unknown>[] {
+		if (Array.isArray(data)) {
+			return data.map((item) => this.encryptFields(item, fields) as Record<string, unknown>);
+		}
+		const encrypted = { ...data };
+		for (const field of fields) {
+			const value = encrypted[field];
+			if (typeof value === "string") {
+				encrypted[field] = this.encryption.encrypt(value);
+			} else if (this.isRecord(value) && typeof value.set === "string") {
+				encrypted[field] = { set: this.encryption.encrypt(value.set) };
+			}
+		}
+		return encrypted;
+	}
+
+	/**
+	 * Decrypts the secret fields of a model result and follows included relations to User and Instance rows
+	 */
+	private decryptFields(result: unknown, model: string): unknown {
+		if (Array.isArray(result)) {
+			result.forEach((item) => this.decryptFields(item, model));
+		} else if (this.isRecord(result)) {
+			for (const field of ENCRYPTED_FIELDS[model] ?? []) {
+				const value = result[field];
+				if (typeof value === "string") {
+					result[field] = this.encryption.decrypt(value);
+				}
+			}
+			for (const [field, relatedModel] of Object.entries(RELATION_MODELS[model] ?? {})) {
+				if (result[field]) {
+					this.decryptFields(result[field], relatedModel);
+				}
+			}
+		}
+		return result;
+	}
+
+	private isRecord(value: unknown): value is Record<string, unknown> {
+		return !!value && typeof value === "object" && !(value instanceof Date);
+	}
+
+	/**
+	 * Encrypts plain text secrets and re-wraps values under older keys with the active key
+	 * Each row is updated only if it did not change since it was read, so concurrent token refreshes win
+	 */
+	async encryptExistingSecrets(): Promise<{ users: number; instances: number }> {
+		if (!this.encryption.enabled) {
+			throw new Error("ENCRYPTION_KEYS must be set to encrypt existing secrets");
+		}
+		let users = 0;
+		let instances = 0;
+
+		const userRows = await this.$queryRaw<{ id: string; accessToken: string; refreshToken: string }[]>`
+			SELECT id, accessToken, refreshToken FROM User`;
+		for (const row of userRows) {
+			const accessToken = this.encryption.reencrypt(row.accessToken);
+			const refreshToken = this.encryption.reencrypt(row.refreshToken);
+			if (accessToken === row.accessToken && refreshToken === row.refreshToken) {
+				continue;
+			}
+			users += await this.$executeRaw`
+				UPDATE User SET accessToken = ${accessToken}, refreshToken = ${refreshToken}
+				WHERE id = ${row.id} AND accessToken = ${row.accessToken} AND refreshToken = ${row.refreshToken}`;
+		}
+
+		const instanceRows = await this.$queryRaw<{ id: bigint; evolutionApiKey: string }[]>`
+			SELECT id, evolutionApiKey FROM Instance`;
+		for (const row of instanceRows) {
+			const evolutionApiKey = this.encryption.reencrypt(row.evolutionApiKey);
+			if (evolutionApiKey === row.evolutionApiKey) {
+				continue;
+			}
+			instances += await this.$executeRaw`
+				UPDATE Instance SET evolutionApiKey = ${evolutionApiKey}
+				WHERE id = ${row.id} AND evolutionApiKey = ${row.evolutionApiKey}`;
+		}
+
+		return {users, instances};
+	}
+
 	async createUser(data: UserCreateData): Promise<User> {
 		return this.user.upsert({
 			where: {id: data.id},
@@ -56,7 +200,72 @@ export class PrismaService
 	): Promise<User> {
 		return this.user.update({
 			where: {id: userId},
-			data: {accessToken, refreshToken, tokenExpiresAt},
+			data: {
+				accessToken,
+				refreshToken,
+				tokenExpiresAt,
+				tokenRefreshError: null,
+				tokenRefreshFailedAt: null,
+				reauthRequired: false,
+			},
+		});
+	}
+
+	/**
+	 * Store refreshed tokens only if the refresh token is still the one the refresh used
+	 * Returns null when another process replaced it in the meantime
+	 */
+	async updateUserTokensIfUnchanged(
+		userId: string,
+		expectedRefreshToken: string,
+		accessToken: string,
+		refreshToken: string,
+		tokenExpiresAt: Date,
+	): Promise<User | null> {
+		// Stored tokens are encrypted with a random IV, so compare decrypted and swap on the exact stored ciphertext
+		const [current] = await this.$queryRaw<{ refreshToken: string }[]>`
+			SELECT refreshToken FROM User WHERE id = ${userId}`;
+		if (!current || this.encryption.decrypt(current.refreshToken) !== expectedRefreshToken) {
+			return null;
+		}
+		const result = await this.user.updateMany({
+			where: {id: userId, refreshToken: current.refreshToken},
+			data: {
+				accessToken,
+				refreshToken,
+				tokenExpiresAt,
+				tokenRefreshError: null,
+				tokenRefreshFailedAt: null,
+				reauthRequired: false,
+			},
+		});
+		if (result.count === 0) {
+			return null;
+		}
+		return this.findUser(userId);
+	}
+
+	async recordTokenRefreshFailure(userId: string, error: string, reauthRequired: boolean): Promise<User> {
+		return this.user.update({
+			where: {id: userId},
+			data: {
+				tokenRefreshError: error,
+				tokenRefreshFailedAt: new Date(),
+				...(reauthRequired ? {reauthRequired: true} : {}),
+			},
+		});
+	}
+
+	/**
+	 * Users whose access token expires before the given date and can still be refreshed
+	 */
+	async getUsersWithExpiringTokens(before: Date): Promise<User[]> {
+		return this.user.findMany({
+			where: {
+				tokenExpiresAt: {lte: before},
+				reauthRequired: false,
+			},
+			orderBy: {tokenExpiresAt: "asc"},
 		});
 	}
 
@@ -120,7 +329,15 @@ export class PrismaService
 		});
 	}
 
+	async getAllInstances(): Promise<(Instance & { user: User })[]> {
+		return this.instance.findMany({
+			include: {user: true},
+			orderBy: {id: "asc"},
+		});
+	}
+
 	async removeInstance(id: number | bigint): Promise<Instance> {
+		// The location's defaultInstanceId is cleared by the foreign key (ON DELETE SET NULL)
 		return this.instance.delete({
 			where: {id: BigInt(id)},
 		});
@@ -133,6 +350,16 @@ export class PrismaService
 		});
 	}
 
+	/**
+	 * Merges keys into the instance settings in a single statement, so concurrent webhooks don't overwrite each other
+	 * A key set to null is removed (JSON merge patch semantics)
+	 */
+	async mergeInstanceSettings(id: number | bigint, patch: Record<string, unknown>): Promise<void> {
+		await this.$executeRaw`
+			UPDATE Instance SET settings = JSON_MERGE_PATCH(COALESCE(settings, JSON_OBJECT()), CAST(${JSON.stringify(patch)} AS JSON))
+			WHERE id = ${BigInt(id)}`;
+	}
+
 	async updateInstanceState(id: number | bigint, state: InstanceState): Promise<Instance> {
 		return this.instance.update({
 			where: {id: BigInt(id)},
@@ -140,6 +367,13 @@ export class PrismaService
 		});
 	}
 
+	async setDefaultInstance(userId: string, instanceId: bigint | null): Promise<User> {
+		return this.user.update({
+			where: {id: userId},
+			data: {defaultInstanceId: instanceId},
+		});
+	}
+
 	async updateInstanceName(id: number | bigint, name: string): Promise<Instance & { user: User }> {
 		return this.instance.update({
 			where: {id: BigInt(id)},
@@ -160,17 +394,38 @@ export class PrismaService
 		evolutionMsgId: string;
 		instanceId: bigint;
 		contactPhone?: string;
+		partIndex?: number;
+		status?: SentMessageStatus;
 	}): Promise<SentMessage> {
 		return this.sentMessage.create({
 			data: {
 				ghlMessageId: data.ghlMessageId,
+				partIndex: data.partIndex ?? 0,
 				evolutionMsgId: data.evolutionMsgId,
 				instanceId: data.instanceId,
 				contactPhone: data.contactPhone,
+				status: data.status,
 			},
 		});
 	}
 
+	async updateSentMessageStatus(id: bigint, status: SentMessageStatus): Promise<SentMessage> {
+		return this.sentMessage.update({
+			where: { id },
+			data: { status },
+		});
+	}
+
+	/**
+	 * All WhatsApp messages sent for a GHL message, in send order
+	 */
+	async getSentMessageParts(ghlMessageId: string): Promise<SentMessage[]> {
+		return this.sentMessage.findMany({
+			where: { ghlMessageId },
+			orderBy: { partIndex: "asc" },
+		});
+	}
+
 	/**
 	 * Find a sent message by Evolution/WhatsApp message ID
 	 */
@@ -189,8 +444,9 @@ export class PrismaService
 	 * Find a sent message by GHL message ID
 	 */
 	async findSentMessageByGhlId(ghlMessageId: string): Promise<SentMessage | null> {
-		return this.sentMessage.findUnique({
+		return this.sentMessage.findFirst({
 			where: { ghlMessageId },
+			orderBy: { partIndex: "asc" },
 		});
 	}
 
@@ -214,4 +470,412 @@ export class PrismaService
 		
 		return result.count;
 	}
+
+	// ============================================================================
+	// InboundMessage Methods - For inbound deduplication
+	// ============================================================================
+
+	/**
+	 * Claim an inbound message for processing
+	 * Returns null if the message was already processed for this instance
+	 */
+	async claimInboundMessage(data: {
+		evolutionMsgId: string;
+		instanceId: bigint;
+		contactPhone?: string;
+	}): Promise<InboundMessage | null> {
+		try {
+			return await this.inboundMessage.create({
+				data: {
+					evolutionMsgId: data.evolutionMsgId,
+					instanceId: data.instanceId,
+					contactPhone: data.contactPhone,
+				},
+			});
+		} catch (error) {
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Release a claim so a failed message can be processed again on retry
+	 */
+	async releaseInboundMessage(id: bigint): Promise<void> {
+		await this.inboundMessage.deleteMany({
+			where: { id },
+		});
+	}
+
+	async setInboundMessageGhlId(id: bigint, ghlMessageId: string): Promise<void> {
+		await this.inboundMessage.updateMany({
+			where: { id },
+			data: { ghlMessageId },
+		});
+	}
+
+	async findInboundMessageByGhlId(ghlMessageId: string): Promise<InboundMessage | null> {
+		return this.inboundMessage.findFirst({
+			where: { ghlMessageId },
+		});
+	}
+
+	/**
+	 * GHL message a WhatsApp message was forwarded as (inbound) or sent from (outbound)
+	 */
+	async findGhlMessageIdByEvolutionId(instanceId: bigint, evolutionMsgId: string): Promise<string | null> {
+		const inbound = await this.inboundMessage.findUnique({
+			where: { instanceId_evolutionMsgId: { instanceId, evolutionMsgId } },
+		});
+		if (inbound?.ghlMessageId) {
+			return inbound.ghlMessageId;
+		}
+		const sent = await this.sentMessage.findFirst({
+			where: { instanceId, evolutionMsgId },
+		});
+		return sent?.ghlMessageId ?? null;
+	}
+
+	/**
+	 * Clean up old inbound message records (older than 7 days)
+	 * Evolution only re-delivers recent messages, so older IDs are not needed
+	 */
+	async cleanupOldInboundMessages(daysOld: number = 7): Promise<number> {
+		const cutoffDate = new Date();
+		cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+
+		const result = await this.inboundMessage.deleteMany({
+			where: {
+				createdAt: { lt: cutoffDate }
+			}
+		});
+
+		if (result.count > 0) {
+			this.logger.log(`Cleaned up ${result.count} old inbound message records`);
+		}
+
+		return result.count;
+	}
+
+	// ============================================================================
+	// ContactRoute Methods - For sticky outbound routing
+	// ============================================================================
+
+	/**
+	 * Remember which instance last received a message from a contact
+	 */
+	async upsertContactRoute(data: {
+		userId: string;
+		contactPhone: string;
+		ghlContactId?: string;
+		instanceId: bigint;
+	}): Promise<ContactRoute> {
+		return this.contactRoute.upsert({
+			where: {
+				userId_contactPhone: {userId: data.userId, contactPhone: data.contactPhone},
+			},
+			update: {
+				instanceId: data.instanceId,
+				...(data.ghlContactId ? {ghlContactId: data.ghlContactId} : {}),
+			},
+			create: {
+				userId: data.userId,
+				contactPhone: data.contactPhone,
+				ghlContactId: data.ghlContactId,
+				instanceId: data.instanceId,
+			},
+		});
+	}
+
+	/**
+	 * Find the route for a contact, preferring the GHL contact ID over the phone
+	 */
+	async findContactRoute(
+		userId: string,
+		contact: { ghlContactId?: string; contactPhone?: string },
+	): Promise<(ContactRoute & { instance: Instance }) | null> {
+		if (contact.ghlContactId) {
+			const route = await this.contactRoute.findFirst({
+				where: {userId, ghlContactId: contact.ghlContactId},
+				orderBy: {updatedAt: "desc"},
+				include: {instance: true},
+			});
+			if (route) return route;
+		}
+
+		if (contact.contactPhone) {
+			return this.contactRoute.findUnique({
+				where: {
+					userId_contactPhone: {userId, contactPhone: contact.contactPhone},
+				},
+				include: {instance: true},
+			});
+		}
+
+		return null;
+	}
+
+	// ============================================================================
+	// ConnectionEvent Methods - Instance connection history
+	// ============================================================================
+
+	/**
+	 * Records a connection state transition
+	 * Evolution repeats CONNECTION_UPDATE for the same state (e.g. while connecting), those are skipped
+	 */
+	async recordConnectionEvent(instanceId: bigint, state: InstanceState, statusReason?: number | null): Promise<ConnectionEvent | null> {
+		const latest = await this.connectionEvent.findFirst({
+			where: { instanceId },
+			orderBy: { createdAt: "desc" },
+		});
+		if (latest?.state === state) {
+			return null;
+		}
+		return this.connectionEvent.create({
+			data: { instanceId, state, statusReason: statusReason ?? null },
+		});
+	}
+
+	/**
+	 * Connection events since a date, plus the last event before it (the state the period started in)
+	 */
+	async getConnectionHistory(instanceId: bigint, since: Date): Promise<{ initial: ConnectionEvent | null; events: ConnectionEvent[] }> {
+		const [initial, events] = await Promise.all([
+			this.connectionEvent.findFirst({
+				where: { instanceId, createdAt: { lt: since } },
+				orderBy: { createdAt: "desc" },
+			}),
+			this.connectionEvent.findMany({
+				where: { instanceId, createdAt: { gte: since } },
+				orderBy: { createdAt: "asc" },
+			}),
+		]);
+		return { initial, events };
+	}
+
+	async findLastDisconnect(instanceId: bigint): Promise<ConnectionEvent | null> {
+		return this.connectionEvent.findFirst({
+			where: { instanceId, state: InstanceState.close },
+			orderBy: { createdAt: "desc" },
+		});
+	}
+
+	/**
+	 * Time of the latest inbound and outbound message of an instance, within the message retention windows
+	 */
+	async getLastMessageTimes(instanceId: bigint): Promise<{ lastInboundAt: Date | null; lastOutboundAt: Date | null }> {
+		const [inbound, outbound] = await Promise.all([
+			this.inboundMessage.aggregate({ where: { instanceId }, _max: { createdAt: true } }),
+			this.sentMessage.aggregate({ where: { instanceId }, _max: { createdAt: true } }),
+		]);
+		return { lastInboundAt: inbound._max.createdAt, lastOutboundAt: outbound._max.createdAt };
+	}
+
+	/**
+	 * Clean up connection events older than the given number of days
+	 */
+	async cleanupOldConnectionEvents(daysOld: number = 30): Promise<number> {
+		const cutoffDate = new Date();
+		cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+
+		const result = await this.connectionEvent.deleteMany({
+			where: {
+				createdAt: { lt: cutoffDate }
+			}
+		});
+
+		if (result.count > 0) {
+			this.logger.log(`Cleaned up ${result.count} old connection events`);
+		}
+
+		return result.count;
+	}
+
+	// ============================================================================
+	// WebhookJob Methods - Durable queue for incoming Evolution webhooks
+	// ============================================================================
+
+	/**
+	 * Store an incoming webhook for processing by the queue worker
+	 */
+	async createWebhookJob(data: {
+		instanceId: bigint;
+		event: string;
+		payload: Record<string, unknown>;
+	}): Promise<WebhookJob> {
+		return this.webhookJob.create({
+			data: {
+				instanceId: data.instanceId,
+				event: data.event,
+				payload: data.payload,
+			},
+		});
+	}
+
+	/**
+	 * Claim jobs that are due for processing
+	 * Jobs stuck in "processing" since before staleBefore are reclaimed (worker crashed mid-job)
+	 */
+	async claimDueWebhookJobs(limit: number, staleBefore: Date): Promise<WebhookJob[]> {
+		const now = new Date();
+		const candidates = await this.webhookJob.findMany({
+			where: {
+				OR: [
+					{ status: { in: [WebhookJobStatus.pending, WebhookJobStatus.failed] }, nextAttemptAt: { lte: now } },
+					{ status: WebhookJobStatus.processing, lockedAt: { lt: staleBefore } },
+				],
+			},
+			orderBy: { id: "asc" },
+			take: limit,
+		});
+
+		const claimed: WebhookJob[] = [];
+		for (const job of candidates) {
+			// Conditional update so concurrent workers never claim the same job twice
+			const result = await this.webhookJob.updateMany({
+				where: { id: job.id, status: job.status, updatedAt: job.updatedAt },
+				data: { status: WebhookJobStatus.processing, lockedAt: now },
+			});
+			if (result.count === 1) {
+				claimed.push({ ...job, status: WebhookJobStatus.processing, lockedAt: now });
+			}
+		}
+
+		return claimed;
+	}
+
+	async markWebhookJobCompleted(id: bigint): Promise<WebhookJob> {
+		return this.webhookJob.update({
+			where: { id },
+			data: {
+				status: WebhookJobStatus.completed,
+				completedAt: new Date(),
+				lockedAt: null,
+				lastError: null,
+			},
+		});
+	}
+
+	/**
+	 * Record a failed attempt; a null nextAttemptAt moves the job to the dead state
+	 */
+	async markWebhookJobFailed(id: bigint, error: string, nextAttemptAt: Date | null): Promise<WebhookJob> {
+		return this.webhookJob.update({
+			where: { id },
+			data: {
+				status: nextAttemptAt ? WebhookJobStatus.failed : WebhookJobStatus.dead,
+				attempts: { increment: 1 },
+				lastError: error,
+				lockedAt: null,
+				...(nextAttemptAt ? { nextAttemptAt } : {}),
+			},
+		});
+	}
+
+	async listWebhookJobs(status: WebhookJobStatus[], limit: number = 50): Promise<WebhookJob[]> {
+		return this.webhookJob.findMany({
+			where: { status: { in: status } },
+			orderBy: { id: "desc" },
+			take: limit,
+		});
+	}
+
+	async getWebhookJob(id: bigint): Promise<WebhookJob | null> {
+		return this.webhookJob.findUnique({
+			where: { id },
+		});
+	}
+
+	/**
+	 * Reset a job so the worker picks it up again with a fresh attempt budget
+	 */
+	async resetWebhookJob(id: bigint): Promise<WebhookJob> {
+		return this.webhookJob.update({
+			where: { id },
+			data: {
+				status: WebhookJobStatus.pending,
+				attempts: 0,
+				nextAttemptAt: new Date(),
+				lockedAt: null,
+			},
+		});
+	}
+
+	/**
+	 * Clean up finished webhook jobs
+	 * Completed jobs are removed after daysOld; dead jobs are kept for deadDaysOld so they can still be replayed
+	 */
+	async cleanupOldWebhookJobs(daysOld: number = 7, deadDaysOld: number = 30): Promise<number> {
+		const cutoffDate = new Date();
+		cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+		const deadCutoffDate = new Date();
+		deadCutoffDate.setDate(deadCutoffDate.getDate() - deadDaysOld);
+
+		const result = await this.webhookJob.deleteMany({
+			where: {
+				OR: [
+					{ status: WebhookJobStatus.completed, createdAt: { lt: cutoffDate } },
+					{ status: WebhookJobStatus.dead, createdAt: { lt: deadCutoffDate } },
+				],
+			},
+		});
+
+		if (result.count > 0) {
+			this.logger.log(`Cleaned up ${result.count} old webhook job records`);
+		}
+
+		return result.count;
+	}
+
+	// ============================================================================
+	// JobRun Methods - Run log for scheduled jobs
+	// ============================================================================
+
+	async createJobRun(jobName: string, trigger: string): Promise<JobRun> {
+		return this.jobRun.create({
+			data: { jobName, trigger },
+		});
+	}
+
+	async finishJobRun(id: bigint, result: { affected?: number; error?: string }): Promise<JobRun> {
+		return this.jobRun.update({
+			where: { id },
+			data: {
+				status: result.error ? JobRunStatus.failed : JobRunStatus.succeeded,
+				affected: result.affected,
+				error: result.error,
+				finishedAt: new Date(),
+			},
+		});
+	}
+
+	async getRecentJobRuns(jobName: string, limit: number = 10): Promise<JobRun[]> {
+		return this.jobRun.findMany({
+			where: { jobName },
+			orderBy: { startedAt: "desc" },
+			take: limit,
+		});
+	}
+
+	/**
+	 * Clean up old job run logs (older than 30 days)
+	 */
+	async cleanupOldJobRuns(daysOld: number = 30): Promise<number> {
+		const cutoffDate = new Date();
+		cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+
+		const result = await this.jobRun.deleteMany({
+			where: {
+				startedAt: { lt: cutoffDate }
+			}
+		});
+
+		if (result.count > 0) {
+			this.logger.log(`Cleaned up ${result.count} old job run records`);
+		}
+
+		return result.count;
+	}
 }
@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { GhlModule } from "../ghl/ghl.module";
+import { WebhookQueueService } from "./webhook-queue.service";
+
+@Module({
+	imports: [GhlModule],
+	providers: [WebhookQueueService],
+	exports: [WebhookQueueService],
+})
+export class QueueModule {}
@@ -0,0 +1,131 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import type { WebhookJob } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { GhlService } from "../ghl/ghl.service";
+import { EvolutionWebhook } from "../ghl/types/evolution-webhook.types";
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BACKOFF_BASE_MS = 30000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+/**
+ * Durable queue for incoming Evolution webhooks
+ * Webhooks are stored first and processed by an in-process worker, so a GHL
+ * outage or token problem delays messages instead of losing them
+ */
+@Injectable()
+export class WebhookQueueService implements OnModuleInit, OnModuleDestroy {
+	private readonly logger = new Logger(WebhookQueueService.name);
+	private timer: NodeJS.Timeout | null = null;
+	private isProcessing = false;
+	private readonly pollIntervalMs: number;
+	private readonly maxAttempts: number;
+	private readonly backoffBaseMs: number;
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly ghlService: GhlService,
+		private readonly configService: ConfigService,
+	) {
+		this.pollIntervalMs = Number(this.configService.get("WEBHOOK_QUEUE_POLL_MS")) || DEFAULT_POLL_INTERVAL_MS;
+		this.maxAttempts = Number(this.configService.get("WEBHOOK_QUEUE_MAX_ATTEMPTS")) || DEFAULT_MAX_ATTEMPTS;
+		this.backoffBaseMs = Number(this.configService.get("WEBHOOK_QUEUE_BACKOFF_MS")) || DEFAULT_BACKOFF_BASE_MS;
+	}
+
+	onModuleInit() {
+		this.timer = setInterval(() => void this.processDueJobs(), this.pollIntervalMs);
+	}
+
+	onModuleDestroy() {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Stores a webhook and kicks the worker so it is processed right away
+	 */
+	async enqueue(instanceId: bigint, webhook: Record<string, unknown>): Promise<WebhookJob> {
+		const job = await this.prisma.createWebhookJob({
+			instanceId,
+			event: String(webhook.event || "unknown"),
+			payload: webhook,
+		});
+		this.logger.debug(`Queued webhook job ${job.id} (${job.event})`);
+
+		void this.processDueJobs();
+		return job;
+	}
+
+	/**
+	 * Puts a failed or dead job back in the queue
+	 */
+	async replay(jobId: bigint): Promise<WebhookJob | null> {
+		const job = await this.prisma.getWebhookJob(jobId);
+		if (!job) {
+			return null;
+		}
+
+		const reset = await this.prisma.resetWebhookJob(jobId);
+		this.logger.log(`Replaying webhook job ${jobId} (was ${job.status})`);
+
+		void this.processDueJobs();
+		return reset;
+	}
+
+	/**
+	 * Processes all jobs that are due, one batch at a time
+	 */
+	async processDueJobs(): Promise<void> {
+		if (this.isProcessing) {
+			return;
+		}
+		this.isProcessing = true;
+
+		try {
+			let jobs: WebhookJob[];
+			do {
+				jobs = await this.prisma.claimDueWebhookJobs(BATCH_SIZE, new Date(Date.now() - STALE_LOCK_MS));
+				for (const job of jobs) {
+					await this.processJob(job);
+				}
+			} while (jobs.length === BATCH_SIZE);
+		} catch (error) {
+			this.logger.error(`Webhook queue worker failed: ${error.message}`);
+		} finally {
+			this.isProcessing = false;
+		}
+	}
+
+	private async processJob(job: WebhookJob): Promise<void> {
+		try {
+			const instance = await this.prisma.getInstance(job.instanceId);
+			if (!instance) {
+				throw new Error(`Instance ${job.instanceId} no longer exists`);
+			}
+
+			await this.ghlService.handleEvolutionWebhook(instance, job.payload as unknown as EvolutionWebhook);
+			await this.prisma.markWebhookJobCompleted(job.id);
+		} catch (error) {
+			const attempts = job.attempts + 1;
+			const message = error.response?.data
+				? `${error.message}: ${JSON.stringify(error.response.data)}`
+				: error.message;
+
+			if (attempts >= this.maxAttempts) {
+				this.logger.error(`Webhook job ${job.id} failed permanently after ${attempts} attempts: ${message}`);
+				await this.prisma.markWebhookJobFailed(job.id, message, null);
+				return;
+			}
+
+			const delay = Math.min(this.backoffBaseMs * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+			this.logger.warn(`Webhook job ${job.id} failed (attempt ${attempts}/${this.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+			await this.prisma.markWebhookJobFailed(job.id, message, new Date(Date.now() + delay));
+		}
+	}
+}
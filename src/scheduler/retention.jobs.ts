@@ -0,0 +1,87 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PrismaService } from "../prisma/prisma.service";
+import { MediaService } from "../media/media.service";
+import { SchedulerService } from "./scheduler.service";
+
+const DEFAULT_RETENTION_INTERVAL_MINUTES = 24 * 60;
+
+/**
+ * Retention jobs that keep bookkeeping tables from growing forever
+ * Each table has its own retention window (in days) from config
+ */
+@Injectable()
+export class RetentionJobs implements OnModuleInit {
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly mediaService: MediaService,
+		private readonly scheduler: SchedulerService,
+		private readonly configService: ConfigService,
+	) {}
+
+	onModuleInit() {
+		const intervalMs = (Number(this.configService.get("RETENTION_INTERVAL_MINUTES")) || DEFAULT_RETENTION_INTERVAL_MINUTES) * 60 * 1000;
+
+		this.scheduler.register({
+			name: "cleanup-sent-messages",
+			description: "Delete outbound message mappings older than RETENTION_SENT_MESSAGES_DAYS",
+			intervalMs,
+			run: async () => ({
+				affected: await this.prisma.cleanupOldSentMessages(this.getDays("RETENTION_SENT_MESSAGES_DAYS", 7)),
+			}),
+		});
+
+		this.scheduler.register({
+			name: "cleanup-inbound-messages",
+			description: "Delete inbound deduplication records older than RETENTION_INBOUND_MESSAGES_DAYS",
+			intervalMs,
+			run: async () => ({
+				affected: await this.prisma.cleanupOldInboundMessages(this.getDays("RETENTION_INBOUND_MESSAGES_DAYS", 7)),
+			}),
+		});
+
+		this.scheduler.register({
+			name: "cleanup-webhook-jobs",
+			description: "Delete completed webhook jobs older than RETENTION_WEBHOOK_JOBS_DAYS and dead ones older than RETENTION_DEAD_WEBHOOK_JOBS_DAYS",
+			intervalMs,
+			run: async () => ({
+				affected: await this.prisma.cleanupOldWebhookJobs(
+					this.getDays("RETENTION_WEBHOOK_JOBS_DAYS", 7),
+					this.getDays("RETENTION_DEAD_WEBHOOK_JOBS_DAYS", 30),
+				),
+			}),
+		});
+
+		this.scheduler.register({
+			name: "cleanup-connection-events",
+			description: "Delete instance connection history older than RETENTION_CONNECTION_EVENTS_DAYS",
+			intervalMs,
+			run: async () => ({
+				affected: await this.prisma.cleanupOldConnectionEvents(this.getDays("RETENTION_CONNECTION_EVENTS_DAYS", 30)),
+			}),
+		});
+
+		this.scheduler.register({
+			name: "cleanup-media",
+			description: "Delete re-hosted inbound media files older than RETENTION_MEDIA_DAYS",
+			intervalMs,
+			run: async () => ({
+				affected: await this.mediaService.cleanupOldMedia(this.getDays("RETENTION_MEDIA_DAYS", 90)),
+			}),
+		});
+
+		this.scheduler.register({
+			name: "cleanup-job-runs",
+			description: "Delete job run logs older than RETENTION_JOB_RUNS_DAYS",
+			intervalMs,
+			run: async () => ({
+				affected: await this.prisma.cleanupOldJobRuns(this.getDays("RETENTION_JOB_RUNS_DAYS", 30)),
+			}),
+		});
+	}
+
+	private getDays(key: string, fallback: number): number {
+		const value = Number(this.configService.get(key));
+		return value > 0 ? value : fallback;
+	}
+}
@@ -0,0 +1,13 @@
+import { Global, Module } from "@nestjs/common";
+import { ScheduleModule } from "@nestjs/schedule";
+import { SchedulerService } from "./scheduler.service";
+import { RetentionJobs } from "./retention.jobs";
+import { MediaModule } from "../media/media.module";
+
+@Global()
+@Module({
+	imports: [ScheduleModule.forRoot(), MediaModule],
+	providers: [SchedulerService, RetentionJobs],
+	exports: [SchedulerService],
+})
+export class SchedulerModule {}
@@ -0,0 +1,95 @@
+import { Injectable, Logger, OnApplicationBootstrap } from "@nestjs/common";
+import { SchedulerRegistry } from "@nestjs/schedule";
+import type { JobRun } from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+import { JobTrigger, ScheduledJob } from "./scheduler.types";
+
+/**
+ * Runs registered background jobs on their interval and records each run in JobRun
+ */
+@Injectable()
+export class SchedulerService implements OnApplicationBootstrap {
+	private readonly logger = new Logger(SchedulerService.name);
+	private readonly jobs = new Map<string, ScheduledJob>();
+	private readonly running = new Set<string>();
+	private started = false;
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly schedulerRegistry: SchedulerRegistry,
+	) {}
+
+	/**
+	 * Registers a job; call from the owning provider's onModuleInit
+	 */
+	register(job: ScheduledJob): void {
+		if (this.jobs.has(job.name)) {
+			throw new Error(`Scheduled job ${job.name} is already registered`);
+		}
+		this.jobs.set(job.name, job);
+
+		if (this.started) {
+			this.schedule(job);
+		}
+	}
+
+	onApplicationBootstrap() {
+		this.started = true;
+		for (const job of this.jobs.values()) {
+			this.schedule(job);
+		}
+	}
+
+	getJobs(): ScheduledJob[] {
+		return [...this.jobs.values()];
+	}
+
+	hasJob(name: string): boolean {
+		return this.jobs.has(name);
+	}
+
+	isRunning(name: string): boolean {
+		return this.running.has(name);
+	}
+
+	/**
+	 * Runs a job now and records the run
+	 * Returns null if the job is already running
+	 */
+	async runJob(name: string, trigger: JobTrigger): Promise<JobRun | null> {
+		const job = this.jobs.get(name);
+		if (!job) {
+			throw new Error(`Unknown scheduled job: ${name}`);
+		}
+
+		if (this.running.has(name)) {
+			this.logger.warn(`Job ${name} is already running, skipping ${trigger} run`);
+			return null;
+		}
+		this.running.add(name);
+
+		try {
+			const run = await this.prisma.createJobRun(name, trigger);
+			try {
+				const result = await job.run();
+				this.logger.log(`Job ${name} finished (${trigger})${result?.affected !== undefined ? `, affected: ${result.affected}` : ""}`);
+				return await this.prisma.finishJobRun(run.id, { affected: result?.affected });
+			} catch (error) {
+				this.logger.error(`Job ${name} failed (${trigger}): ${error.message}`);
+				return await this.prisma.finishJobRun(run.id, { error: error.message || String(error) });
+			}
+		} finally {
+			this.running.delete(name);
+		}
+	}
+
+	private schedule(job: ScheduledJob): void {
+		const interval = setInterval(() => {
+			this.runJob(job.name, "schedule").catch(error => {
+				this.logger.error(`Failed to record run of job ${job.name}: ${error.message}`);
+			});
+		}, job.intervalMs);
+		this.schedulerRegistry.addInterval(job.name, interval);
+		this.logger.log(`Scheduled job ${job.name} every ${Math.round(job.intervalMs / 60000)} min`);
+	}
+}
@@ -0,0 +1,26 @@
+/**
+ * Scheduler types
+ * Jobs are registered by the module that owns them and run on a fixed interval
+ */
+
+/**
+ * Result reported by a job run
+ */
+export interface JobRunResult {
+	affected?: number;
+}
+
+/**
+ * A background job managed by SchedulerService
+ */
+export interface ScheduledJob {
+	name: string;
+	description: string;
+	intervalMs: number;
+	run(): Promise<JobRunResult | void>;
+}
+
+/**
+ * How a job run was started
+ */
+export type JobTrigger = "schedule" | "manual";
@@ -1,4 +1,4 @@
-import { User } from ".prisma/client";
+import { InstanceState, User } from ".prisma/client";
 
 interface GhlPlatformAttachment {
 	url: string;
@@ -60,13 +60,39 @@ export interface WorkflowActionResult {
 	error?: string;
 }
 
+export type InstanceLifecycleAction = "logout" | "restart" | "reconnect";
+
+export interface InstanceHealth {
+	instanceId: string;
+	state: InstanceState | null;  // Last state reported by webhook
+	liveState: string;            // State reported by Evolution API right now, "error" when unreachable
+	uptimePercent: number | null; // Share of the last uptimeDays spent connected, null without history
+	uptimeDays: number;
+	lastDisconnect: {
+		at: Date;
+		statusReason: number | null;
+		reason: string | null;
+	} | null;
+	lastInboundAt: Date | null;
+	lastOutboundAt: Date | null;
+}
+
 export interface WorkflowActionData {
 	locationId: string;
 	phone?: string;
-	actionType: "send_message" | "send_file";
+	contactId?: string;
+	actionType: "send_message" | "send_file" | "send_location" | "send_contact";
 	message?: string;
 	fileUrl?: string;
 	fileName?: string;
+	latitude?: string | number;
+	longitude?: string | number;
+	locationName?: string;
+	address?: string;
+	contactName?: string;
+	contactPhone?: string;
+	contactEmail?: string;
+	contactOrganization?: string;
 	instanceId?: string;
 	url?: string;
 	caption?: string;
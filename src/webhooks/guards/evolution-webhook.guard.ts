@@ -1,4 +1,6 @@
 import { Injectable, CanActivate, ExecutionContext, UnauthorizedException, Logger } from "@nestjs/common";
+import { timingSafeEqual } from "crypto";
+import { Request } from "express";
 import { PrismaService } from "../../prisma/prisma.service";
 
 @Injectable()
@@ -12,7 +14,7 @@ export class EvolutionWebhookGuard implements CanActivate {
 		return this.validateRequest(request);
 	}
 
-	private async validateRequest(request: Request & { body: Record<string, unknown>; instance?: unknown }): Promise<boolean> {
+	private async validateRequest(request: Request & { instance?: unknown }): Promise<boolean> {
 		const body = request.body;
 
 		// Validate webhook has required fields
@@ -41,9 +43,28 @@ export class EvolutionWebhookGuard implements CanActivate {
 			throw new UnauthorizedException("Instance not found");
 		}
 
+		// Evolution sends the per-instance token registered with the webhook as a "token" header
+		const expectedToken = dbInstance.settings?.webhookToken;
+		if (typeof expectedToken !== "string" || !expectedToken) {
+			this.logger.warn(`Instance ${instanceName} has no webhook token, rotate it to accept webhooks`);
+			throw new UnauthorizedException("Webhook token not configured for instance");
+		}
+
+		const providedToken = request.headers["token"];
+		if (typeof providedToken !== "string" || !this.tokensMatch(providedToken, expectedToken)) {
+			this.logger.warn(`Invalid webhook token for instance ${instanceName}`);
+			throw new UnauthorizedException("Invalid webhook token");
+		}
+
 		// Attach instance to request for controller use
 		request.instance = dbInstance;
 
 		return true;
 	}
+
+	private tokensMatch(provided: string, expected: string): boolean {
+		const providedBuffer = Buffer.from(provided);
+		const expectedBuffer = Buffer.from(expected);
+		return providedBuffer.length === expectedBuffer.length && timingSafeEqual(providedBuffer, expectedBuffer);
+	}
 }
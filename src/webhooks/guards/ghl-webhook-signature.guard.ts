@@ -0,0 +1,83 @@
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException, Logger, RawBodyRequest } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createVerify } from "crypto";
+import { Request } from "express";
+
+const DEFAULT_MAX_AGE_SECONDS = 300;
+
+/**
+ * Verifies the x-wh-signature header GHL signs webhooks with (RSA-SHA256 over the raw body)
+ * The signed payload carries a timestamp and webhookId, used to reject stale and replayed deliveries
+ */
+@Injectable()
+export class GhlWebhookSignatureGuard implements CanActivate {
+	private readonly logger = new Logger(GhlWebhookSignatureGuard.name);
+	private readonly seenWebhooks = new Map<string, number>();
+
+	constructor(private configService: ConfigService) {}
+
+	canActivate(context: ExecutionContext): boolean {
+		const request = context.switchToHttp().getRequest<RawBodyRequest<Request>>();
+		const signature = request.headers["x-wh-signature"];
+
+		if (!signature || typeof signature !== "string") {
+			throw new UnauthorizedException("Missing webhook signature");
+		}
+
+		const publicKey = this.configService.get<string>("GHL_WEBHOOK_PUBLIC_KEY");
+
+		if (!publicKey) {
+			throw new UnauthorizedException("Webhook public key not configured");
+		}
+
+		if (!request.rawBody) {
+			throw new UnauthorizedException("Missing webhook body");
+		}
+
+		if (!this.verifySignature(request.rawBody, signature, publicKey.replace(/\\n/g, "\n"))) {
+			this.logger.warn("Rejected GHL webhook with invalid signature");
+			throw new UnauthorizedException("Invalid webhook signature");
+		}
+
+		const { timestamp, webhookId } = (request.body || {}) as { timestamp?: string; webhookId?: string };
+		const sentAt = Date.parse(timestamp ?? "");
+		const maxAgeMs = (Number(this.configService.get("GHL_WEBHOOK_MAX_AGE_SECONDS")) || DEFAULT_MAX_AGE_SECONDS) * 1000;
+		const now = Date.now();
+
+		if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > maxAgeMs) {
+			this.logger.warn(`Rejected GHL webhook outside the ${maxAgeMs / 1000}s timestamp window`);
+			throw new UnauthorizedException("Webhook timestamp outside allowed window");
+		}
+
+		// A valid signature can be replayed within the window; remember what was accepted until it ages out
+		this.pruneSeenWebhooks(now);
+		const replayKey = webhookId || signature;
+		if (this.seenWebhooks.has(replayKey)) {
+			this.logger.warn(`Rejected replayed GHL webhook ${replayKey}`);
+			throw new UnauthorizedException("Webhook already received");
+		}
+		this.seenWebhooks.set(replayKey, now + maxAgeMs);
+
+		return true;
+	}
+
+	private verifySignature(rawBody: Buffer, signature: string, publicKey: string): boolean {
+		try {
+			const verifier = createVerify("sha256");
+			verifier.update(rawBody);
+			verifier.end();
+			return verifier.verify(publicKey, signature, "base64");
+		} catch (error) {
+			this.logger.error(`Failed to verify GHL webhook signature: ${error.message}`);
+			return false;
+		}
+	}
+
+	private pruneSeenWebhooks(now: number): void {
+		for (const [key, expiresAt] of this.seenWebhooks) {
+			if (expiresAt <= now) {
+				this.seenWebhooks.delete(key);
+			}
+		}
+	}
+}
@@ -9,7 +9,8 @@ import {
 	Logger,
 	Req,
 } from "@nestjs/common";
-import { GhlService } from "../ghl/ghl.service";
+import { GhlService, normalizeEvolutionEvent } from "../ghl/ghl.service";
+import { ALLOWED_EVOLUTION_EVENTS, EvolutionWebhookEvent } from "../ghl/types/evolution-webhook.types";
 import { GhlWebhookDto } from "../ghl/dto/ghl-webhook.dto";
 import { EvolutionWebhookGuard } from "./guards/evolution-webhook.guard";
 import { Response, Request } from "express";
@@ -17,7 +18,10 @@ import { ConfigService } from "@nestjs/config";
 import { PrismaService } from "../prisma/prisma.service";
 import { WorkflowActionDto } from "../ghl/dto/workflow-action.dto";
 import { WorkflowTokenGuard } from "./guards/workflow-token.guard";
+import { GhlWebhookSignatureGuard } from "./guards/ghl-webhook-signature.guard";
 import { Instance, User } from "@prisma/client";
+import { WebhookQueueService } from "../queue/webhook-queue.service";
+import { WorkflowActionData } from "../types";
 
 // Extend Express Request to include instance from guard
 interface EvolutionRequest extends Request {
@@ -28,7 +32,12 @@ interface EvolutionRequest extends Request {
 export class WebhooksController {
 	private readonly logger = new Logger(WebhooksController.name);
 
-	constructor(private readonly ghlService: GhlService, private configService: ConfigService, private prisma: PrismaService) {}
+	constructor(
+		private readonly ghlService: GhlService,
+		private configService: ConfigService,
+		private prisma: PrismaService,
+		private readonly webhookQueue: WebhookQueueService,
+	) {}
 
 	@Post("evolution")
 	@UseGuards(EvolutionWebhookGuard)
@@ -39,17 +48,30 @@ export class WebhooksController {
 		@Res() res: Response,
 	): Promise<void> {
 		this.logger.debug(`Evolution Webhook Body: ${JSON.stringify(webhook)}`);
-		res.status(HttpStatus.OK).send();
+
+		// Instance is attached by EvolutionWebhookGuard
+		const instance = req.instance;
+		if (!instance) {
+			this.logger.error("No instance found in request - guard may have failed");
+			res.status(HttpStatus.OK).send();
+			return;
+		}
+
+		// Evolution may still send events the adapter ignores (presence, chats, ...) - don't queue them
+		const event = typeof webhook.event === "string" ? normalizeEvolutionEvent(webhook.event) : "";
+		if (!ALLOWED_EVOLUTION_EVENTS.includes(event as EvolutionWebhookEvent)) {
+			this.logger.debug(`Ignoring Evolution event ${String(webhook.event)} for instance ${instance.instanceName}`);
+			res.status(HttpStatus.OK).send();
+			return;
+		}
+
+		// Persist before acknowledging; the queue worker processes and retries it
 		try {
-			// Instance is attached by EvolutionWebhookGuard
-			const instance = req.instance;
-			if (!instance) {
-				this.logger.error("No instance found in request - guard may have failed");
-				return;
-			}
-			await this.ghlService.handleEvolutionWebhook(instance, webhook as any);
+			await this.webhookQueue.enqueue(instance.id, webhook);
+			res.status(HttpStatus.OK).send();
 		} catch (error) {
-			this.logger.error(`Error processing Evolution webhook`, error);
+			this.logger.error(`Failed to queue Evolution webhook for instance ${instance.instanceName}`, error);
+			res.status(HttpStatus.INTERNAL_SERVER_ERROR).send();
 		}
 	}
 
@@ -78,10 +100,19 @@ export class WebhooksController {
 			const result = await this.ghlService.handleWorkflowAction({
 				locationId,
 				phone: contactPhone,
-				actionType: workflowAction.data.url ? "send_file" : "send_message",
+				contactId: workflowAction.extras?.contactId,
+				actionType: this.resolveWorkflowActionType(workflowAction),
 				message: workflowAction.data.message,
 				fileUrl: workflowAction.data.url,
 				fileName: workflowAction.data.caption,
+				latitude: workflowAction.data.latitude,
+				longitude: workflowAction.data.longitude,
+				locationName: workflowAction.data.locationName,
+				address: workflowAction.data.address,
+				contactName: workflowAction.data.contactName,
+				contactPhone: workflowAction.data.contactPhone,
+				contactEmail: workflowAction.data.contactEmail,
+				contactOrganization: workflowAction.data.contactOrganization,
 			});
 
 			res.status(HttpStatus.OK).json(result);
@@ -102,6 +133,7 @@ export class WebhooksController {
 	}
 
 	@Post("ghl")
+	@UseGuards(GhlWebhookSignatureGuard)
 	@HttpCode(HttpStatus.OK)
 	async handleGhlWebhook(@Body() ghlWebhook: GhlWebhookDto, @Res() res: Response): Promise<void> {
 		this.logger.debug(`GHL Webhook Body: ${JSON.stringify(ghlWebhook)}`);
@@ -129,21 +161,22 @@ export class WebhooksController {
 				throw new BadRequestException("Location ID is missing");
 			}
 
-			// Find active instance for this location
-			const instances = await this.prisma.getInstancesByUserId(locationId);
+			const user = await this.prisma.findUser(locationId);
 
-			if (instances.length === 0) {
-				this.logger.error(`No instances found for location ${locationId}`);
+			if (!user) {
+				this.logger.error(`User not found for location ${locationId}`);
 				res.status(HttpStatus.OK).send();
 				return;
 			}
 
-			// Use the first (or only) instance
-			const instance = instances[0];
-			const user = await this.prisma.findUser(locationId);
-			
-			if (!user) {
-				this.logger.error(`User not found for location ${locationId}`);
+			// Reply from the number the contact last wrote to, falling back to the default instance
+			const instance = await this.ghlService.resolveOutboundInstance(user, {
+				contactId: ghlWebhook.contactId,
+				phone: ghlWebhook.phone,
+			});
+
+			if (!instance) {
+				this.logger.error(`No instances found for location ${locationId}`);
 				res.status(HttpStatus.OK).send();
 				return;
 			}
@@ -161,4 +194,23 @@ export class WebhooksController {
 			res.status(HttpStatus.OK).send();
 		}
 	}
+
+	/**
+	 * Action type from the marketplace action key (e.g. "send_location"), falling back to the fields sent
+	 */
+	private resolveWorkflowActionType(workflowAction: WorkflowActionDto): WorkflowActionData["actionType"] {
+		const actionTypes: WorkflowActionData["actionType"][] = ["send_message", "send_file", "send_location", "send_contact"];
+		const key = actionTypes.find((type) => workflowAction.meta?.key === type);
+		if (key) {
+			return key;
+		}
+		const data = workflowAction.data;
+		if (data.latitude !== undefined && data.longitude !== undefined) {
+			return "send_location";
+		}
+		if (data.contactPhone) {
+			return "send_contact";
+		}
+		return data.url ? "send_file" : "send_message";
+	}
 }
@@ -2,10 +2,12 @@ import { Module } from "@nestjs/common";
 import { WebhooksController } from "./webhooks.controller";
 import { GhlModule } from "../ghl/ghl.module";
 import { EvolutionWebhookGuard } from "./guards/evolution-webhook.guard";
+import { GhlWebhookSignatureGuard } from "./guards/ghl-webhook-signature.guard";
+import { QueueModule } from "../queue/queue.module";
 
 @Module({
-	imports: [GhlModule],
+	imports: [GhlModule, QueueModule],
 	controllers: [WebhooksController],
-	providers: [EvolutionWebhookGuard],
+	providers: [EvolutionWebhookGuard, GhlWebhookSignatureGuard],
 })
 export class WebhooksModule {}